@@ -0,0 +1,136 @@
+import { createHash } from "node:crypto";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { execa } from "execa";
+
+/**
+ * File extensions recognised as release archives, longest first.
+ */
+const ARCHIVE_EXTENSIONS = [".tar.gz", ".tgz", ".tar", ".zip"] as const;
+
+/**
+ * The archive extension of a source URL or path, ignoring any query string
+ * or fragment. Returns undefined for sources that aren't archives.
+ */
+function archiveExtension(source: string): (typeof ARCHIVE_EXTENSIONS)[number] | undefined {
+  const path = source.replace(/[?#].*$/, "").toLowerCase();
+  return ARCHIVE_EXTENSIONS.find((ext) => path.endsWith(ext));
+}
+
+/**
+ * Whether a source is a release archive (.tgz, .tar.gz, .tar or .zip),
+ * either an http(s) URL or a local path.
+ */
+export function isArchiveSource(source: string): boolean {
+  return archiveExtension(source) !== undefined;
+}
+
+/**
+ * Whether an archive source has to be downloaded (so it isn't available offline).
+ */
+export function isRemoteArchive(source: string): boolean {
+  return source.startsWith("http://") || source.startsWith("https://");
+}
+
+/**
+ * Filesystem path of a local source: a "file:" directory or a local archive
+ * path (optionally prefixed with "file:"). Relative paths are resolved
+ * against `root`.
+ */
+export function localSourcePath(source: string, root: string = "."): string {
+  return source.startsWith("file://") ? fileURLToPath(source) : resolve(root, source.replace(/^file:/, ""));
+}
+
+/**
+ * Download or read an archive source. Local paths are resolved against `root`.
+ */
+async function readArchive(source: string, root: string = "."): Promise<Buffer> {
+  if (isRemoteArchive(source)) {
+    const response = await fetch(source);
+    if (!response.ok) {
+      throw new Error(`Failed to download ${source}: HTTP ${response.status}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  try {
+    return await readFile(localSourcePath(source, root));
+  } catch {
+    throw new Error(`Archive not found: ${source}`);
+  }
+}
+
+/**
+ * SHA-256 of an archive's bytes, as "sha256:<64 hex chars>".
+ */
+export function hashArchive(data: Buffer): string {
+  return `sha256:${createHash("sha256").update(data).digest("hex")}`;
+}
+
+/**
+ * Download (or read) an archive source and hash it, without extracting it.
+ */
+export async function hashArchiveSource(source: string, root: string = "."): Promise<string> {
+  return hashArchive(await readArchive(source, root));
+}
+
+/**
+ * Extract an archive file into a directory with the system's tar or unzip.
+ */
+async function extractArchive(file: string, ext: string, dest: string): Promise<void> {
+  // Windows' bundled tar (bsdtar) also reads zip files
+  const [command, args] =
+    ext === ".zip" && process.platform !== "win32"
+      ? ["unzip", ["-q", "-o", file, "-d", dest]]
+      : ["tar", ["-xf", file, "-C", dest]];
+
+  try {
+    await execa(command, args, { stdio: "pipe" });
+  } catch (err: unknown) {
+    const detail = (err as { stderr?: string }).stderr?.trim();
+    throw new Error(`Failed to extract archive with ${command}${detail ? `: ${detail}` : ""}`);
+  }
+}
+
+/**
+ * Download (or read) an archive source and extract it to a temporary
+ * directory. With `expected`, the archive's hash must match it — that's
+ * what pins an archive in skills.lock. A local archive path is resolved
+ * against `root`.
+ * Returns the extracted directory and the archive's hash. The caller cleans
+ * up the directory with `cleanupClone()`.
+ */
+export async function resolveArchive(
+  source: string,
+  expected?: string,
+  root: string = "."
+): Promise<{ dir: string; archive: string }> {
+  const ext = archiveExtension(source);
+  if (!ext) throw new Error(`Not an archive source: ${source}`);
+
+  const data = await readArchive(source, root);
+  const archive = hashArchive(data);
+  if (expected && archive !== expected) {
+    throw new Error(
+      `Archive hash mismatch for ${source}: skills.lock pins ${expected}, downloaded ${archive}`
+    );
+  }
+
+  // Keep the archive file out of the extracted tree
+  const downloadDir = await mkdtemp(join(tmpdir(), "skills-lock-archive-"));
+  const dir = await mkdtemp(join(tmpdir(), "skills-lock-"));
+  try {
+    const file = join(downloadDir, `archive${ext}`);
+    await writeFile(file, data);
+    await extractArchive(file, ext, dir);
+  } catch (err) {
+    await rm(dir, { recursive: true, force: true });
+    throw err;
+  } finally {
+    await rm(downloadDir, { recursive: true, force: true });
+  }
+
+  return { dir, archive };
+}
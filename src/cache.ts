@@ -0,0 +1,391 @@
+import { simpleGit } from "simple-git";
+import { execa } from "execa";
+import { createHash } from "node:crypto";
+import { access, mkdir, readdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join, resolve } from "node:path";
+import type { CachedRepo } from "./types.js";
+
+const CACHE_METADATA_FILE = "skills-lock-cache.json";
+
+/**
+ * Fetches in flight, keyed by cache key. Lets concurrent callers for the same
+ * source share one clone/fetch instead of racing on the same directory.
+ */
+const inflight = new Map<string, Promise<string>>();
+
+/**
+ * Root directory of the clone cache.
+ * Honors SKILLS_LOCK_CACHE_DIR, otherwise uses the platform's user cache dir.
+ */
+export function getCacheDir(): string {
+  if (process.env.SKILLS_LOCK_CACHE_DIR) {
+    return resolve(process.env.SKILLS_LOCK_CACHE_DIR);
+  }
+  if (process.platform === "darwin") {
+    return join(homedir(), "Library", "Caches", "skills-lock");
+  }
+  if (process.platform === "win32") {
+    return join(process.env.LOCALAPPDATA ?? join(homedir(), "AppData", "Local"), "skills-lock", "Cache");
+  }
+  return join(process.env.XDG_CACHE_HOME ?? join(homedir(), ".cache"), "skills-lock");
+}
+
+/**
+ * Normalize a source URL so that equivalent spellings share a cache entry.
+ * Strips trailing slashes and ".git", lowercases the host of URLs, and
+ * resolves local paths to absolute paths.
+ */
+export function normalizeSourceUrl(url: string): string {
+  const normalized = url.trim().replace(/\/+$/, "").replace(/\.git$/, "");
+
+  const match = /^([a-z][a-z0-9+.-]*:\/\/)([^/]+)(.*)$/i.exec(normalized);
+  if (match) {
+    return `${match[1].toLowerCase()}${match[2].toLowerCase()}${match[3]}`;
+  }
+
+  const scp = /^([^@/]+@)([^:/]+):(.*)$/.exec(normalized);
+  if (scp) {
+    return `${scp[1]}${scp[2].toLowerCase()}:${scp[3]}`;
+  }
+
+  // Anything else is a local path
+  return resolve(normalized);
+}
+
+/**
+ * Cache key for a source: a short SHA-256 of its normalized URL.
+ */
+export function cacheKey(url: string): string {
+  return createHash("sha256").update(normalizeSourceUrl(url)).digest("hex").slice(0, 24);
+}
+
+/**
+ * Path of the cached bare repository for a source (which may not exist yet).
+ */
+export function cachedRepoPath(url: string): string {
+  return join(getCacheDir(), "repos", cacheKey(url));
+}
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Move a fresh clone into place as a cache entry. An existing entry is only
+ * moved aside at the last moment: checkouts made with `--shared` read their
+ * objects from the entry's path, so it must never be missing for long.
+ */
+async function replaceEntry(cloneDir: string, repoDir: string): Promise<void> {
+  if (!(await exists(repoDir))) {
+    await rename(cloneDir, repoDir);
+    return;
+  }
+  const oldDir = `${repoDir}.old-${process.pid}`;
+  await rm(oldDir, { recursive: true, force: true });
+  await rename(repoDir, oldDir);
+  await rename(cloneDir, repoDir);
+  await rm(oldDir, { recursive: true, force: true });
+}
+
+async function writeCacheMetadata(repoDir: string, url: string): Promise<void> {
+  const meta = { source: url, fetchedAt: new Date().toISOString() };
+  await writeFile(join(repoDir, CACHE_METADATA_FILE), JSON.stringify(meta, null, 2) + "\n", "utf-8");
+}
+
+/**
+ * Clone a source into the cache, or fetch new commits if it is already cached.
+ * New entries are partial clones (--filter=blob:none): every commit and tree,
+ * but file contents only on demand through `ensureCachedFiles()`. Servers
+ * without filter support send a full clone instead. `full` always makes a
+ * new full clone, replacing an existing entry.
+ * Returns the path to the cached bare repository.
+ */
+export async function fetchCachedRepo(url: string, options?: { full?: boolean }): Promise<string> {
+  const key = cacheKey(url);
+  for (let pending = inflight.get(key); pending; pending = inflight.get(key)) {
+    if (!options?.full) return pending;
+    // A full clone replaces the entry, so wait for whoever is fetching into it
+    await pending.catch(() => undefined);
+  }
+
+  const promise = (async () => {
+    const repoDir = cachedRepoPath(url);
+
+    if (!options?.full && (await exists(repoDir))) {
+      await simpleGit(repoDir).fetch(["origin", "--tags", "--prune", "--force"]);
+    } else {
+      // Clone next to the final location and rename, so an interrupted
+      // clone never leaves a half-populated cache entry behind.
+      await mkdir(join(getCacheDir(), "repos"), { recursive: true });
+      const partialDir = `${repoDir}.partial-${process.pid}`;
+      await rm(partialDir, { recursive: true, force: true });
+      try {
+        await simpleGit().clone(url, partialDir, options?.full ? ["--bare"] : ["--bare", "--filter=blob:none"]);
+        const git = simpleGit(partialDir);
+        // A bare clone has no fetch refspec; mirror branches so later fetches update them
+        await git.addConfig("remote.origin.fetch", "+refs/heads/*:refs/heads/*");
+        await replaceEntry(partialDir, repoDir);
+      } catch (err) {
+        await rm(partialDir, { recursive: true, force: true });
+        throw err;
+      }
+    }
+
+    await writeCacheMetadata(repoDir, url);
+    return repoDir;
+  })();
+
+  inflight.set(key, promise);
+  try {
+    return await promise;
+  } finally {
+    inflight.delete(key);
+  }
+}
+
+/**
+ * Check whether a cached repository contains a commit.
+ */
+export async function hasCachedCommit(repoDir: string, ref: string): Promise<boolean> {
+  try {
+    // Unlike cat-file, rev-list with --missing never fetches a missing
+    // object from a partial clone's remote
+    await simpleGit(repoDir).raw(["rev-list", "--no-walk", "--missing=allow-any", `${ref}^{commit}`]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Blobs under `paths` at a commit (the whole tree without `paths`) that a
+ * partial cache entry hasn't downloaded yet. Always empty for full clones.
+ */
+async function missingBlobs(repoDir: string, ref: string, paths?: string[]): Promise<string[]> {
+  const git = simpleGit(repoDir);
+  if ((await git.getConfig("remote.origin.promisor")).value !== "true") {
+    return [];
+  }
+
+  // --missing=print lists missing objects instead of fetching them
+  const objects = await git.raw(["rev-list", "--objects", "--no-walk", "--missing=print", ref]);
+  const missing = new Set(
+    objects.split("\n").filter((line) => line.startsWith("?")).map((line) => line.slice(1).trim())
+  );
+  if (missing.size === 0) return [];
+
+  const tree = await git.raw(["ls-tree", "-r", "-z", ref, ...(paths ? ["--", ...paths] : [])]);
+  const wanted = tree
+    .split("\0")
+    .map((line) => line.split(/\s/, 3))
+    .filter(([, type]) => type === "blob")
+    .map(([, , oid]) => oid);
+  return [...new Set(wanted)].filter((oid) => missing.has(oid));
+}
+
+/**
+ * Check whether a pinned commit for a source is available in the cache,
+ * without touching the network. With `paths`, the files under them must
+ * be cached too.
+ */
+export async function isCommitCached(url: string, ref: string, paths?: string[]): Promise<boolean> {
+  const repoDir = cachedRepoPath(url);
+  return (
+    (await exists(repoDir)) &&
+    (await hasCachedCommit(repoDir, ref)) &&
+    (!paths || (await missingBlobs(repoDir, ref, paths)).length === 0)
+  );
+}
+
+/**
+ * Make sure a pinned commit is available in the cache.
+ * Commits are immutable, so the network is only touched when the cache
+ * doesn't have the SHA yet — and then the SHA is fetched directly before
+ * falling back to fetching every branch. With `offline`, throws instead of
+ * fetching.
+ * Returns the path to the cached bare repository.
+ */
+export async function ensureCachedCommit(
+  url: string,
+  ref: string,
+  options?: { offline?: boolean }
+): Promise<string> {
+  const repoDir = cachedRepoPath(url);
+  if (await isCommitCached(url, ref)) {
+    return repoDir;
+  }
+
+  if (options?.offline) {
+    throw new Error(`Commit ${ref.slice(0, 7)} from ${url} is not in the local cache (offline mode)`);
+  }
+
+  // Most hosts serve a commit when asked for by SHA, even one that isn't on
+  // any branch (e.g. a force-pushed or PR ref)
+  const fetchRef = () => simpleGit(repoDir).fetch(["origin", ref]).catch(() => undefined);
+
+  if (await exists(repoDir)) {
+    await fetchRef();
+    if (await hasCachedCommit(repoDir, ref)) return repoDir;
+  }
+
+  await fetchCachedRepo(url);
+  if (!(await hasCachedCommit(repoDir, ref))) {
+    await fetchRef();
+  }
+  return repoDir;
+}
+
+/**
+ * Make sure the files under `paths` at a pinned commit (the whole tree
+ * without `paths`) are available in the cache, so a checkout from it
+ * doesn't need the network. A partial entry downloads just those blobs in
+ * one batch; if the server won't serve objects by ID, the entry is replaced
+ * with a full clone, cloned beside it so that checkouts still reading from
+ * the entry keep working. With `offline`, throws instead of fetching.
+ * Returns the path to the cached bare repository.
+ */
+export async function ensureCachedFiles(
+  url: string,
+  ref: string,
+  paths?: string[],
+  options?: { offline?: boolean }
+): Promise<string> {
+  const repoDir = await ensureCachedCommit(url, ref, options);
+  const missing = await missingBlobs(repoDir, ref, paths);
+  if (missing.length === 0) {
+    return repoDir;
+  }
+
+  if (options?.offline) {
+    throw new Error(`Files at ${ref.slice(0, 7)} from ${url} are not in the local cache (offline mode)`);
+  }
+
+  // The same request git makes when it lazily fetches missing objects
+  await execa(
+    "git",
+    [
+      "-c", "fetch.negotiationAlgorithm=noop",
+      "fetch", "origin", "--no-tags", "--no-write-fetch-head", "--recurse-submodules=no",
+      "--filter=blob:none", "--stdin",
+    ],
+    { cwd: repoDir, input: missing.join("\n") + "\n" }
+  ).catch(() => undefined);
+  if ((await missingBlobs(repoDir, ref, paths)).length === 0) {
+    return repoDir;
+  }
+
+  await fetchCachedRepo(url, { full: true });
+  return ensureCachedCommit(url, ref, options);
+}
+
+/**
+ * Import a git bundle into the cache entry for a source, so its commits are
+ * available offline. Creates the entry if the source isn't cached yet.
+ * Returns the path to the cached bare repository.
+ */
+export async function importBundle(bundlePath: string, url: string): Promise<string> {
+  const repoDir = cachedRepoPath(url);
+  const bundle = resolve(bundlePath);
+
+  if (await exists(repoDir)) {
+    // Keep bundle refs in their own namespace so they don't move the cached branches
+    await simpleGit(repoDir).fetch([bundle, "+refs/heads/*:refs/bundle/heads/*", "+refs/tags/*:refs/tags/*"]);
+  } else {
+    await mkdir(join(getCacheDir(), "repos"), { recursive: true });
+    const partialDir = `${repoDir}.partial-${process.pid}`;
+    await rm(partialDir, { recursive: true, force: true });
+    try {
+      await simpleGit().clone(bundle, partialDir, ["--bare"]);
+      const git = simpleGit(partialDir);
+      // Point origin at the real source so later online runs fetch from it
+      await git.remote(["set-url", "origin", url]);
+      await git.addConfig("remote.origin.fetch", "+refs/heads/*:refs/heads/*");
+      await rename(partialDir, repoDir);
+    } catch (err) {
+      await rm(partialDir, { recursive: true, force: true });
+      throw err;
+    }
+  }
+
+  await writeCacheMetadata(repoDir, url);
+  return repoDir;
+}
+
+/**
+ * Write every ref of a cached source to a git bundle file,
+ * for carrying the cache to a machine without network access.
+ */
+export async function exportBundle(url: string, bundlePath: string): Promise<void> {
+  const repoDir = cachedRepoPath(url);
+  if (!(await exists(repoDir))) {
+    throw new Error(`${url} is not in the local cache`);
+  }
+  await simpleGit(repoDir).raw(["bundle", "create", resolve(bundlePath), "--all"]);
+}
+
+/**
+ * List all repositories in the cache.
+ */
+export async function listCachedRepos(): Promise<CachedRepo[]> {
+  const reposDir = join(getCacheDir(), "repos");
+  let keys: string[];
+  try {
+    keys = await readdir(reposDir);
+  } catch {
+    return [];
+  }
+
+  const repos: CachedRepo[] = [];
+  for (const key of keys.sort()) {
+    if (key.includes(".partial-") || key.includes(".old-")) continue;
+    const dir = join(reposDir, key);
+    let source = "(unknown)";
+    let fetchedAt: string | undefined;
+    try {
+      const meta = JSON.parse(await readFile(join(dir, CACHE_METADATA_FILE), "utf-8"));
+      if (typeof meta?.source === "string") source = meta.source;
+      if (typeof meta?.fetchedAt === "string") fetchedAt = meta.fetchedAt;
+    } catch {
+      // Missing or unreadable metadata — still list the entry so it can be cleaned
+    }
+    repos.push({ key, source, dir, fetchedAt });
+  }
+
+  return repos;
+}
+
+/**
+ * Run `git fsck` on a cached repository.
+ * Returns null if it is healthy, or the error message if it is corrupt.
+ */
+export async function verifyCachedRepo(repo: CachedRepo): Promise<string | null> {
+  try {
+    await simpleGit(repo.dir).raw(["fsck", "--no-progress", "--no-dangling"]);
+    return null;
+  } catch (err: unknown) {
+    return err instanceof Error ? err.message.trim() : String(err);
+  }
+}
+
+/**
+ * Remove cached repositories — a single source when given, otherwise all of them.
+ * Returns the number of entries removed.
+ */
+export async function cleanCache(url?: string): Promise<number> {
+  if (url) {
+    const repoDir = cachedRepoPath(url);
+    if (!(await exists(repoDir))) return 0;
+    await rm(repoDir, { recursive: true, force: true });
+    return 1;
+  }
+
+  const repos = await listCachedRepos();
+  await rm(join(getCacheDir(), "repos"), { recursive: true, force: true });
+  return repos.length;
+}
@@ -0,0 +1,42 @@
+import { simpleGit } from "simple-git";
+import { ensureCachedFiles } from "./cache.js";
+import { expandSource } from "./resolver.js";
+import type { SkillChangelog } from "./types.js";
+
+/**
+ * What changed in a skill between two commits of its source: the commits
+ * that touched its path (like `git log --oneline`) and a per-file line
+ * count of the changes. Read from the clone cache, which only has to hold
+ * the skill's files at both commits.
+ */
+export async function readChangelog(source: string, path: string, from: string, to: string): Promise<SkillChangelog> {
+  const url = expandSource(source);
+  await ensureCachedFiles(url, from, [path]);
+  const git = simpleGit(await ensureCachedFiles(url, to, [path]));
+  const pathspec = path === "." ? [] : ["--", path];
+
+  const log = await git.raw(["log", "--format=%H %s", `${from}..${to}`, ...pathspec]);
+  const commits = log
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => {
+      const space = line.indexOf(" ");
+      return { sha: line.slice(0, space), subject: line.slice(space + 1) };
+    });
+
+  const stat = await git.raw(["-c", "core.quotePath=false", "diff", "--numstat", "--no-renames", from, to, ...pathspec]);
+  const prefix = path === "." ? "" : `${path}/`;
+  const files = stat
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => {
+      const [additions, deletions, file] = line.split("\t");
+      const relative = file.startsWith(prefix) ? file.slice(prefix.length) : file;
+      // Binary files are listed as "-\t-"
+      return additions === "-"
+        ? { path: relative }
+        : { path: relative, additions: Number(additions), deletions: Number(deletions) };
+    });
+
+  return { commits, files };
+}
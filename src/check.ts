@@ -0,0 +1,121 @@
+import { computeSkillHash, SKILLS_DIR } from "./installer.js";
+import { mapConcurrent } from "./pool.js";
+import { scanInstalledSkills } from "./scanner.js";
+import type { CheckResult, Lockfile } from "./types.js";
+
+/**
+ * Compare installed skills against a lockfile across presence, ref, and
+ * file integrity, in every target directory (.agents/skills by default).
+ * Integrity is always recomputed from the files on disk — local metadata
+ * is never trusted for it.
+ */
+export async function checkSkills(
+  lockfile: Lockfile,
+  options?: { concurrency?: number; targets?: string[] }
+): Promise<CheckResult> {
+  const targets = options?.targets ?? [SKILLS_DIR];
+  if (targets.length === 1) return checkTarget(lockfile, targets[0], options?.concurrency);
+
+  const result: CheckResult = { verified: [], missing: [], wrongRef: [], modified: [], unverified: [], extra: [] };
+  const verifiedCounts = new Map<string, number>();
+
+  for (const target of targets) {
+    const partial = await checkTarget(lockfile, target, options?.concurrency);
+    for (const name of partial.verified) verifiedCounts.set(name, (verifiedCounts.get(name) ?? 0) + 1);
+    result.missing.push(...partial.missing.map((item) => ({ ...item, target })));
+    result.wrongRef.push(...partial.wrongRef.map((item) => ({ ...item, target })));
+    result.modified.push(...partial.modified.map((item) => ({ ...item, target })));
+    result.unverified.push(...partial.unverified.map((item) => ({ ...item, target })));
+    result.extra.push(...partial.extra.map((item) => ({ ...item, target })));
+  }
+
+  result.verified = Object.keys(lockfile.skills).filter((name) => verifiedCounts.get(name) === targets.length);
+  return result;
+}
+
+/**
+ * Check a single target directory.
+ */
+async function checkTarget(lockfile: Lockfile, target: string, concurrency = 1): Promise<CheckResult> {
+  const installed = await scanInstalledSkills(target);
+  const installedMap = new Map(installed.map((s) => [s.name, s]));
+  const lockedNames = new Set(Object.keys(lockfile.skills));
+
+  const result: CheckResult = {
+    verified: [],
+    missing: [],
+    wrongRef: [],
+    modified: [],
+    unverified: [],
+    extra: installed
+      .filter((s) => !lockedNames.has(s.name))
+      .map((s) => ({ name: s.name, ref: s.metadata?.ref })),
+  };
+
+  // Hashing is the expensive part, so do it up front in parallel; the
+  // buckets below are still filled in lockfile order.
+  const entries = Object.entries(lockfile.skills);
+  const diskHashes = await mapConcurrent(entries, concurrency, async ([name, entry]) => {
+    const installedSkill = installedMap.get(name);
+    if (!entry.integrity || !installedSkill?.metadata || installedSkill.metadata.ref !== entry.ref) return null;
+    return computeSkillHash(installedSkill.diskPath);
+  });
+
+  for (const [i, [name, entry]] of entries.entries()) {
+    const installedSkill = installedMap.get(name);
+    if (!installedSkill) {
+      result.missing.push({ name, ref: entry.ref });
+      continue;
+    }
+
+    const meta = installedSkill.metadata;
+    if (!meta) {
+      result.unverified.push({ name, ref: entry.ref });
+      continue;
+    }
+
+    if (meta.ref !== entry.ref) {
+      result.wrongRef.push({ name, have: meta.ref, want: entry.ref });
+      continue;
+    }
+
+    if (entry.integrity) {
+      const diskHash = diskHashes[i];
+      if (diskHash.status === "rejected") throw diskHash.reason;
+      if (diskHash.value !== entry.integrity) {
+        result.modified.push({ name, ref: entry.ref, expected: entry.integrity, actual: diskHash.value! });
+        continue;
+      }
+    }
+
+    result.verified.push(name);
+  }
+
+  return result;
+}
+
+/**
+ * Whether a check result has no problems at all.
+ */
+export function checkPassed(result: CheckResult): boolean {
+  return (
+    result.missing.length === 0 &&
+    result.wrongRef.length === 0 &&
+    result.modified.length === 0 &&
+    result.unverified.length === 0 &&
+    result.extra.length === 0
+  );
+}
+
+/**
+ * Project skills that share a name with a global skill but are pinned to a
+ * different ref. The project copy is the one agents load in that project.
+ */
+export function findShadowedSkills(
+  project: Lockfile,
+  global: Lockfile
+): { name: string; ref?: string; globalRef?: string }[] {
+  return Object.entries(project.skills)
+    .filter(([name, entry]) => global.skills[name] && global.skills[name].ref !== entry.ref)
+    .map(([name, entry]) => ({ name, ref: entry.ref, globalRef: global.skills[name].ref }));
+}
@@ -1,20 +1,335 @@
+import { existsSync } from "node:fs";
+import { readFile } from "node:fs/promises";
 import { createRequire } from "node:module";
-import { join } from "node:path";
-import { Command } from "commander";
-import { readLockfile, writeLockfile } from "./lockfile.js";
-import { resolveRepo, resolveRef, expandSource, cleanupClone, findSkills } from "./resolver.js";
-import { installSkill, removeSkill, computeSkillHash, writeSkillMetadata } from "./installer.js";
-import { scanInstalledSkills } from "./scanner.js";
-import type { Lockfile } from "./types.js";
+import { basename, dirname, join, resolve } from "node:path";
+import { Command, InvalidArgumentError, Option } from "commander";
+import {
+  LATEST_LOCKFILE_VERSION,
+  readLockfile,
+  readLockfileAtRevision,
+  writeLockfile,
+  diffLockfiles,
+  migrateLockfile,
+  shortRef,
+} from "./lockfile.js";
+import {
+  resolveRepo,
+  resolveRef,
+  expandSource,
+  cleanupClone,
+  checkoutEntry,
+  findSkills,
+  findSkillMdFiles,
+  isLocalSource,
+  normalizeLocalSource,
+  resolveLocalSource,
+  resolveLocalRef,
+  resolvePathRef,
+  isPathUnchanged,
+  sourceKind,
+} from "./resolver.js";
+import { isRemoteArchive, resolveArchive } from "./archive.js";
+import {
+  installSkillFromCheckout,
+  removeSkill,
+  loadInstaller,
+  linkSkillTargets,
+  unlinkSkillTargets,
+  computeSkillHash,
+  writeSkillMetadata,
+} from "./installer.js";
+import { readInstalledSkill } from "./scanner.js";
+import { readConfig, getTargets } from "./config.js";
+import { checkSkills, checkPassed, findShadowedSkills } from "./check.js";
+import { findOutdated } from "./outdated.js";
+import { lintFailed, lintSkill } from "./lint.js";
+import { findDependents, readDependencies, removeFromLockfile } from "./dependencies.js";
+import { checkPolicy, findViolations, isSourceAllowed, readPolicy, POLICY_PATH } from "./policy.js";
+import { noCommitToVerify, verifyCommitSignature, verifyPinnedSigner } from "./signatures.js";
+import { readChangelog } from "./changelog.js";
+import { projectScope, globalScope } from "./scope.js";
+import { parseReportSpec, writeReports, type ReportSpec } from "./report.js";
+import { readMergeInput, mergeLockfiles, installMergeDriver } from "./merge.js";
+import { mapConcurrent } from "./pool.js";
+import {
+  getCacheDir,
+  isCommitCached,
+  listCachedRepos,
+  verifyCachedRepo,
+  cleanCache,
+  importBundle,
+  exportBundle,
+} from "./cache.js";
+import type {
+  Installer,
+  InstallerKind,
+  LintIssue,
+  Lockfile,
+  PolicyViolation,
+  ResolvedSkill,
+  SignatureTrust,
+  SkillChangelog,
+  SkillEntry,
+  SourceKind,
+} from "./types.js";
 
 const require = createRequire(import.meta.url);
 const { version } = require("../package.json");
 
+/** Exit code of `check --policy` when skills break the policy. */
+const POLICY_EXIT_CODE = 2;
+
+/** Why `add` and `update` can't record signers in a version 1 lockfile. */
+const SIGNERS_NEED_V2 = "Recording commit signers needs lockfile version 2 — run 'skills-lock migrate' first";
+
+/** Set by the global --json flag before any command runs. */
+let jsonOutput = false;
+
+/** Full name of the running command, e.g. "install" or "cache ls". */
+let commandName = "";
+
+/** Project or user-level skills, chosen by the global --global flag. */
+let scope = projectScope();
+
+/**
+ * Print a human-readable progress or result line. Suppressed with --json,
+ * where the command's result document is the only thing on stdout.
+ */
+function log(message: string): void {
+  if (!jsonOutput) console.log(message);
+}
+
+/**
+ * Print the command's structured result document. Only used with --json.
+ */
+function emit(result: Record<string, unknown>): void {
+  console.log(JSON.stringify({ command: commandName, ...result }, null, 2));
+}
+
 function die(message: string): never {
-  console.error(message);
+  if (jsonOutput) {
+    emit({ error: message });
+  } else {
+    console.error(message);
+  }
   process.exit(1);
 }
 
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * Exit with a summary of every skill that failed, after the others finished.
+ */
+function dieWithFailures(verb: string, failures: { name: string; error: unknown }[]): never {
+  const lines = failures.map(({ name, error }) => `  - ${name}: ${errorMessage(error)}`);
+  die(`Error: failed to ${verb} ${failures.length} skill(s):\n${lines.join("\n")}`);
+}
+
+/**
+ * Exit because skills break the scope's skills-policy.json. With --json the
+ * violations are listed like `check --policy` reports them.
+ */
+function dieWithViolations(violations: PolicyViolation[]): never {
+  const lines = violations.map(({ name, message }) => `  - ${name}: ${message}`);
+  const error = `${violations.length} policy violation(s) in ${scope.policyPath}:\n${lines.join("\n")}`;
+  if (jsonOutput) {
+    emit({ error, violations });
+    process.exit(1);
+  }
+  die(`Error: ${error}`);
+}
+
+/**
+ * Parse a --concurrency value. Must be a positive integer.
+ */
+function parseConcurrency(value: string): number {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 1) {
+    throw new InvalidArgumentError("Must be a positive integer.");
+  }
+  return n;
+}
+
+/**
+ * Parse a --as value. It becomes a directory name, so no path separators.
+ */
+function parseSkillName(value: string): string {
+  if (!/^[A-Za-z0-9][A-Za-z0-9._-]*$/.test(value)) {
+    throw new InvalidArgumentError("Must be a skill name: letters, digits, '.', '_' and '-'.");
+  }
+  return value;
+}
+
+/**
+ * Collect repeated --report values into a list.
+ */
+function collectReport(value: string, previous: ReportSpec[] = []): ReportSpec[] {
+  try {
+    return [...previous, parseReportSpec(value)];
+  } catch (err: unknown) {
+    throw new InvalidArgumentError(errorMessage(err));
+  }
+}
+
+/**
+ * The --installer option shared by every command that puts skills on disk.
+ */
+function installerOption(): Option {
+  return new Option("--installer <kind>", "How skills are put on disk (default: from skills-lock.config.json, else skills-cli)")
+    .choices(["native", "skills-cli"]);
+}
+
+/**
+ * Load the scope's install setup from skills-lock.config.json.
+ * For the installer, --installer wins over the config file, which wins
+ * over the skills CLI default. `signatures` is set when pinned commits must
+ * be signed, with its key files resolved against the config file.
+ */
+async function loadSetup(
+  flag?: InstallerKind
+): Promise<{ installer: Installer; targets: string[]; signatures?: SignatureTrust }> {
+  const config = await readConfig(scope.configPath);
+  const trust = config.verifySignatures;
+  const configDir = dirname(scope.configPath);
+  const fromConfig = (path: string) => resolve(configDir, path);
+  return {
+    installer: await loadInstaller(flag ?? config.installer, configDir),
+    targets: getTargets(config, scope.root),
+    signatures: trust && {
+      ...(trust.allowedSigners ? { allowedSigners: fromConfig(trust.allowedSigners) } : {}),
+      ...(trust.keyring ? { keyring: fromConfig(trust.keyring) } : {}),
+    },
+  };
+}
+
+/**
+ * Link an installed skill into every target directory, logging each new link.
+ */
+async function linkTargets(skillName: string, installer: Installer, targets: string[]): Promise<string[]> {
+  const linked = await linkSkillTargets(skillName, installer.locate(skillName, scope), targets);
+  for (const target of linked) log(`  ${skillName} — linked into ${target}`);
+  return linked;
+}
+
+/**
+ * Indented lines listing a skill's upstream commits and changed files, to
+ * print under its update line.
+ */
+function formatChangelog(changelog: SkillChangelog): string {
+  const commits = changelog.commits.map(({ sha, subject }) => `\n      ${sha.slice(0, 7)} ${subject}`);
+  const files = changelog.files.map(({ path, additions, deletions }) =>
+    `\n      ${path} | ${additions === undefined ? "binary" : `+${additions} -${deletions}`}`
+  );
+  return [...commits, ...files].join("");
+}
+
+/**
+ * Lint a skill in a checkout against its upstream directory name (skills at
+ * a repo's root have no name to match).
+ */
+function lintCheckout(repoDir: string, skillPath: string): Promise<LintIssue[]> {
+  return lintSkill(join(repoDir, skillPath), skillPath === "." ? undefined : basename(skillPath));
+}
+
+/**
+ * Print lint issues for a skill as warnings on stderr. Silent with --json,
+ * where they're part of the result document.
+ */
+function warnLintIssues(name: string, issues: LintIssue[]): void {
+  if (jsonOutput) return;
+  for (const { message } of issues) console.error(`Warning: ${name}: ${message}`);
+}
+
+/**
+ * A source checked out by `add`, with the skills found in it. Every skill
+ * added from it is pinned to the same `ref` or `archive`.
+ */
+interface AddSource {
+  kind: SourceKind;
+  /** Source as written to skills.lock, with GitHub shorthand expanded */
+  source: string;
+  dir: string;
+  ref?: string;
+  archive?: string;
+  track?: string;
+  skills: ResolvedSkill[];
+  /** Fingerprint of the key that signed `ref`, once verified */
+  signer?: string;
+}
+
+/**
+ * Check out a source for `add` and find its skills. A local source is used
+ * in place and pinned by the SHA of the repo containing it, if any; an
+ * archive is pinned by its own hash.
+ */
+async function checkoutForAdd(source: string, track?: string): Promise<AddSource> {
+  const kind = sourceKind(source);
+  const resolvedSource = expandSource(source);
+  let archive: string | undefined;
+  let dir: string;
+  if (kind === "archive") {
+    ({ dir, archive } = await resolveArchive(source, undefined, scope.root));
+  } else {
+    dir = kind === "file" ? await resolveLocalSource(source, scope.root) : await resolveRepo(source, { ref: track });
+  }
+  try {
+    const ref = kind === "file" ? await resolveLocalRef(dir) : kind === "git" ? await resolveRef(dir) : undefined;
+    return { kind, source: resolvedSource, dir, ref, archive, track, skills: await findSkills(dir, resolvedSource) };
+  } catch (err) {
+    if (kind !== "file") await cleanupClone(dir);
+    throw err;
+  }
+}
+
+/**
+ * Find the one skill in a source with a name and/or directory, like
+ * `add --skill` and `--path` do. Throws when none or several match.
+ */
+function pickSkill(checkout: AddSource, wanted: { skill?: string; path?: string }): ResolvedSkill {
+  const wantedPath = wanted.path?.replace(/^\.\//, "").replace(/\/+$/, "");
+  const { skills, source } = checkout;
+  const matches = skills.filter(
+    (s) => (!wantedPath || s.path === wantedPath) && (!wanted.skill || s.name === wanted.skill)
+  );
+  if (matches.length === 0) {
+    const available = skills.map((s) => s.name).sort();
+    if (available.length === 0) {
+      throw new Error(`No SKILL.md files found in ${source}`);
+    }
+    throw new Error(
+      `${wantedPath ? `No skill at '${wantedPath}'` : `Skill '${wanted.skill}' not found`} in ${source}. ` +
+      `Available skills: ${available.join(", ")}`
+    );
+  }
+  // Several directories with the same name: don't guess which one was meant
+  if (matches.length > 1) {
+    throw new Error(
+      `Skill '${wanted.skill}' is ambiguous in ${source}: found at ${matches.map((s) => s.path).join(", ")}. ` +
+      "Use --path <path> to pick one."
+    );
+  }
+  return matches[0];
+}
+
+/**
+ * Group items by a string key, preserving first-seen order.
+ */
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    const group = groups.get(k);
+    if (group) {
+      group.push(item);
+    } else {
+      groups.set(k, [item]);
+    }
+  }
+  return groups;
+}
+
 /**
  * Wrap an async action handler with error handling.
  * Catches errors and prints a clean message instead of a raw stack trace.
@@ -26,9 +341,8 @@ function action<T extends unknown[]>(
     try {
       await fn(...args);
     } catch (err: unknown) {
-      const message =
-        err instanceof Error ? err.message : String(err);
-      die(`Error: ${message}`);
+      const message = errorMessage(err);
+      die(jsonOutput ? message : `Error: ${message}`);
     }
   };
 }
@@ -40,69 +354,181 @@ program
   .description(
     "A lockfile for AI agent skills — pin, share, and reproduce skill installations"
   )
-  .version(version);
+  .version(version)
+  .option("--json", "Print one machine-readable JSON result document instead of human-readable output")
+  .option("--global", "Manage user-level skills (~/.agents/skills) with a lockfile in the user config directory")
+  .hook("preAction", (_program, actionCommand) => {
+    jsonOutput = Boolean(program.opts().json);
+    scope = program.opts().global ? globalScope() : projectScope();
+    const names: string[] = [];
+    for (let cmd: Command | null = actionCommand; cmd && cmd !== program; cmd = cmd.parent) {
+      names.unshift(cmd.name());
+    }
+    commandName = names.join(" ");
+  });
 
 program
   .command("install")
   .description("Install skills from skills.lock")
   .option("--force", "Reinstall all skills at their pinned refs, even if already present")
-  .action(action(async (opts: { force?: boolean }) => {
-    const lockfile = await readLockfile();
+  .option("--offline", "Install only from the local clone cache; never touch the network")
+  .option("--concurrency <n>", "Number of skills to install in parallel", parseConcurrency, 1)
+  .addOption(installerOption())
+  .action(action(async (opts: { force?: boolean; offline?: boolean; concurrency: number; installer?: InstallerKind }) => {
+    const lockfile = await readLockfile(scope.lockfilePath);
     if (!lockfile) die("No skills.lock found. Run 'skills-lock add' to start.");
+    const { installer, targets, signatures } = await loadSetup(opts.installer);
+
+    // Refuse the whole lockfile before anything is fetched
+    const policy = await readPolicy(scope.policyPath);
+    const violations = policy ? checkPolicy(policy, lockfile) : [];
+    if (violations.length > 0) dieWithViolations(violations);
 
     const skillNames = Object.keys(lockfile.skills);
 
     if (skillNames.length === 0) {
-      console.log("No skills in lockfile.");
+      if (jsonOutput) emit({ installed: [], alreadyInstalled: [], linked: [], lint: [], failed: [] });
+      log("No skills in lockfile.");
       return;
     }
 
-    const installed = await scanInstalledSkills();
-    const installedMap = new Map(installed.map((s) => [s.name, s]));
-
-    let count = 0;
-    let skipped = 0;
+    // Decide what to do with each skill before touching anything, so offline
+    // mode can report every unavailable ref up front instead of failing midway.
+    type Reason = "missing" | "no-metadata" | "wrong-ref" | "modified" | "forced";
+    const plan: { name: string; entry: SkillEntry; reason: Reason; message: string; remove: boolean }[] = [];
+    const alreadyInstalled: string[] = [];
     for (const [name, entry] of Object.entries(lockfile.skills)) {
-      const installedSkill = installedMap.get(name);
+      const installedSkill = await readInstalledSkill(installer.locate(name, scope));
 
       if (!opts.force && installedSkill) {
         const meta = installedSkill.metadata;
         if (!meta) {
-          console.log(`  ${name} — reinstalling (installed outside skills-lock, no metadata)...`);
-          await removeSkill(name);
+          plan.push({ name, entry, reason: "no-metadata", remove: true, message: "reinstalling (installed outside skills-lock, no metadata)..." });
         } else if (meta.ref !== entry.ref) {
-          console.log(`  ${name} — reinstalling (wrong ref: have ${meta.ref.slice(0, 7)}, want ${entry.ref.slice(0, 7)})...`);
-          await removeSkill(name);
+          plan.push({ name, entry, reason: "wrong-ref", remove: true, message: `reinstalling (wrong ref: have ${shortRef(meta.ref)}, want ${shortRef(entry.ref)})...` });
         } else if (entry.integrity && meta.integrity !== entry.integrity) {
-          console.log(`  ${name} — reinstalling (files modified on disk)...`);
-          await removeSkill(name);
+          plan.push({ name, entry, reason: "modified", remove: true, message: "reinstalling (files modified on disk)..." });
         } else {
-          console.log(`  ${name} — already installed`);
-          skipped++;
-          continue;
+          log(`  ${name} — already installed`);
+          alreadyInstalled.push(name);
         }
       } else if (opts.force && installedSkill) {
-        console.log(`  ${name} — reinstalling at ${entry.ref.slice(0, 7)}...`);
-        await removeSkill(name);
+        plan.push({ name, entry, reason: "forced", remove: true, message: `reinstalling at ${shortRef(entry.ref, entry.archive)}...` });
       } else {
-        console.log(`  ${name} — installing from ${entry.source} at ${entry.ref.slice(0, 7)}...`);
+        plan.push({ name, entry, reason: "missing", remove: false, message: `installing from ${entry.source} at ${shortRef(entry.ref, entry.archive)}...` });
       }
+    }
 
-      await installSkill(entry.source, name, entry.ref, entry.path);
-
-      const skillDir = join(".agents", "skills", name);
-      const computedIntegrity = await computeSkillHash(skillDir);
-      if (entry.integrity && computedIntegrity !== entry.integrity) {
-        throw new Error(
-          `Integrity check failed for '${name}': content does not match skills.lock.\n` +
-          `Run 'skills-lock add ${entry.source} --skill ${name} --force' to re-pin.`
+    if (opts.offline) {
+      const unavailable: { name: string; source: string; ref?: string }[] = [];
+      for (const { name, entry } of plan) {
+        const kind = sourceKind(entry.source);
+        const available =
+          kind === "file" ||
+          (kind === "archive"
+            ? !isRemoteArchive(entry.source)
+            : await isCommitCached(expandSource(entry.source), entry.ref!, [entry.path]));
+        if (!available) unavailable.push({ name, source: entry.source, ...(entry.ref ? { ref: entry.ref } : {}) });
+      }
+      if (unavailable.length > 0) {
+        if (jsonOutput) {
+          emit({ error: "Pinned refs not available in the local cache (offline mode)", unavailable });
+          process.exit(1);
+        }
+        die(
+          "Cannot install offline — pinned refs not available in the local cache:\n" +
+          unavailable.map(({ name, source, ref }) => `  - ${name} (${source}${ref ? ` at ${ref.slice(0, 7)}` : ""})`).join("\n") + "\n" +
+          "Run 'skills-lock install' once with network access, or import a bundle with 'skills-lock cache import'."
         );
       }
-      await writeSkillMetadata(skillDir, entry.ref, computedIntegrity);
-      count++;
     }
 
-    console.log(
+    if (plan.length > 0) await installer.check?.();
+
+    // Check out each distinct (source, ref) once; every skill pinned to it
+    // installs from that shared checkout.
+    const groups = [...groupBy(plan, ({ entry }) => `${expandSource(entry.source)} ${entry.ref ?? entry.archive ?? ""}`).values()];
+    const quiet = opts.concurrency > 1 || jsonOutput;
+    const failures: { name: string; error: unknown }[] = [];
+    const installedSkills: { name: string; ref?: string; integrity: string; reason: Reason }[] = [];
+    const lintResults: { name: string; issues: LintIssue[] }[] = [];
+
+    // A local source is installed from its directory as-is; the integrity
+    // check below is what pins it. Git checkouts only include the skills'
+    // paths.
+    const checkouts = await mapConcurrent(groups, opts.concurrency, (group) =>
+      checkoutEntry(group[0].entry, { offline: opts.offline, paths: group.map(({ entry }) => entry.path), root: scope.root })
+    );
+
+    try {
+      const tasks = groups.flatMap((group, i) => group.map((item) => ({ ...item, checkout: checkouts[i] })));
+      const results = await mapConcurrent(tasks, opts.concurrency, async ({ name, entry, reason, message, remove, checkout }) => {
+        if (checkout.status === "rejected") throw checkout.reason;
+
+        log(`  ${name} — ${message}`);
+
+        // The team already agreed on this skill in skills.lock, so lint
+        // problems are reported but don't block the install
+        const issues = await lintCheckout(checkout.value, entry.path);
+        if (issues.length > 0) {
+          lintResults.push({ name, issues });
+          warnLintIssues(name, issues);
+        }
+
+        // Unlike lint problems, an unsigned commit or a new signer is a hard stop
+        if (signatures) await verifyPinnedSigner(checkout.value, name, entry, signatures);
+
+        if (remove) await removeSkill(name, { quiet, installer, global: scope.global });
+        await installSkillFromCheckout(checkout.value, name, entry.path, { quiet, installer, global: scope.global });
+
+        const skillDir = installer.locate(name, scope);
+        const computedIntegrity = await computeSkillHash(skillDir);
+        if (entry.integrity && computedIntegrity !== entry.integrity) {
+          throw new Error(
+            `Integrity check failed for '${name}': content does not match skills.lock.\n` +
+            `Run 'skills-lock add ${entry.source} --skill ${name} --force' to re-pin.`
+          );
+        }
+        await writeSkillMetadata(skillDir, entry.ref, computedIntegrity);
+        installedSkills.push({ name, ref: entry.ref, integrity: computedIntegrity, reason });
+      });
+
+      results.forEach((result, i) => {
+        if (result.status === "rejected") failures.push({ name: tasks[i].name, error: result.reason });
+      });
+    } finally {
+      for (const [i, checkout] of checkouts.entries()) {
+        if (checkout.status === "fulfilled" && !isLocalSource(groups[i][0].entry.source)) {
+          await cleanupClone(checkout.value);
+        }
+      }
+    }
+
+    // Make every good install visible to each agent, including skills that
+    // were already installed but are missing or stale in some target.
+    const failed = new Set(failures.map(({ name }) => name));
+    const linked: { name: string; target: string }[] = [];
+    for (const name of skillNames.filter((n) => !failed.has(n))) {
+      for (const target of await linkTargets(name, installer, targets)) linked.push({ name, target });
+    }
+
+    if (jsonOutput) {
+      emit({
+        installed: installedSkills.sort((a, b) => a.name.localeCompare(b.name)),
+        alreadyInstalled,
+        linked,
+        lint: lintResults.sort((a, b) => a.name.localeCompare(b.name)),
+        failed: failures.map(({ name, error }) => ({ name, error: errorMessage(error) })),
+      });
+      if (failures.length > 0) process.exit(1);
+      return;
+    }
+
+    if (failures.length > 0) dieWithFailures("install", failures);
+    const count = plan.length;
+    const skipped = alreadyInstalled.length;
+
+    log(
       count === 0 && skipped > 0
         ? "All skills verified."
         : count === 0
@@ -115,85 +541,263 @@ program
   .command("add <source>")
   .description("Install a skill and add it to skills.lock")
   .option("--skill <name>", "Skill name within the source repo")
+  .option("--path <path>", "Directory of the skill within the source, to pick one of several with the same name")
+  .option("--as <name>", "Install and lock the skill under another name, e.g. when two sources ship the same one", parseSkillName)
   .option("--force", "Reinstall and re-pin even if already in skills.lock")
-  .action(action(async (source: string, opts: { skill?: string; force?: boolean }) => {
-    const skillName = opts.skill;
-    if (!skillName) die("Please specify a skill name with --skill <name>");
+  .option("--track <branch|tag>", "Branch or tag to pin from and follow on update (default: remote default branch)")
+  .option("--no-lint", "Add the skill even if its SKILL.md has lint errors")
+  .addOption(installerOption())
+  .action(action(async (
+    source: string,
+    opts: {
+      skill?: string;
+      path?: string;
+      as?: string;
+      force?: boolean;
+      track?: string;
+      lint: boolean;
+      installer?: InstallerKind;
+    }
+  ) => {
+    // Local paths are typed relative to the current directory, but
+    // skills.lock resolves them against the scope root
+    source = normalizeLocalSource(source, scope.root);
+    const wantedPath = opts.path?.replace(/^\.\//, "").replace(/\/+$/, "");
+    const upstreamName = opts.skill ?? (wantedPath ? basename(wantedPath) : undefined);
+    if (!upstreamName) die("Please specify a skill name with --skill <name> (or its directory with --path <path>)");
+
+    // The lockfile is keyed by the install name; `path` records which
+    // upstream directory it comes from
+    const skillName = opts.as ?? upstreamName;
 
     // Guard against re-adding an already-pinned skill
-    const existingLockfile = await readLockfile();
+    const existingLockfile = await readLockfile(scope.lockfilePath);
     if (existingLockfile?.skills[skillName] && !opts.force) {
-      const ref = existingLockfile.skills[skillName].ref;
-      console.log(`${skillName} is already in skills.lock (ref: ${ref.slice(0, 7)}). Use --force to reinstall.`);
+      const entry = existingLockfile.skills[skillName];
+      if (jsonOutput) emit({ name: skillName, added: false, reason: "already-locked", ...entry });
+      log(
+        `${skillName} is already in skills.lock (ref: ${shortRef(entry.ref, entry.archive)}). ` +
+        "Use --force to reinstall, or --as <name> to add a different skill under another name."
+      );
       return;
     }
 
+    const { installer, targets, signatures } = await loadSetup(opts.installer);
+
+    // Keep following a previously tracked branch/tag on --force unless overridden
+    const kind = sourceKind(source);
+    const track = kind === "git" ? opts.track ?? existingLockfile?.skills[skillName]?.track : undefined;
+    if (kind !== "git" && opts.track) die(`--track only applies to git sources, not ${kind} sources`);
+
+    // Don't fetch anything from a source the policy doesn't allow
+    const policy = await readPolicy(scope.policyPath);
+    const refuseSource = (name: string, source: string) => {
+      if (policy && !isSourceAllowed(policy, source)) {
+        dieWithViolations([{ name, message: `source ${source} is not in the policy's allowedSources` }]);
+      }
+    };
+    refuseSource(skillName, expandSource(source));
+
     // Clone first to get the exact SHA, then install from that checkout
-    const resolvedSource = expandSource(source);
-    console.log(`Resolving ${skillName} from ${source}...`);
-    const repoDir = await resolveRepo(source);
-    let ref: string;
-    let skillPath: string;
-    try {
-      ref = await resolveRef(repoDir);
-      const skills = await findSkills(repoDir, resolvedSource);
-      const matched = skills.find((s) => s.name === skillName);
-      if (!matched) {
-        const available = skills.map((s) => s.name).sort();
-        if (available.length === 0) {
-          throw new Error(`No SKILL.md files found in ${resolvedSource}`);
-        }
+    log(`Resolving ${upstreamName} from ${source}${track ? ` (tracking ${track})` : ""}...`);
+    const main = await checkoutForAdd(source, track);
+    const checkouts = new Map([[main.source, main]]);
+
+    // The requested skill, then every dependency its SKILL.md declares,
+    // transitively. Dependencies are added under their own names.
+    const added: { name: string; checkout: AddSource; path: string; lint: LintIssue[] }[] = [];
+    const requiredBy = new Map<string, string[]>();
+    const entryFor = ({ checkout, path }: { checkout: AddSource; path: string }, integrity?: string): SkillEntry => ({
+      source: checkout.source,
+      path,
+      ...(checkout.ref ? { ref: checkout.ref } : {}),
+      ...(checkout.archive ? { archive: checkout.archive } : {}),
+      ...(integrity ? { integrity } : {}),
+      ...(checkout.track ? { track: checkout.track } : {}),
+      ...(checkout.signer ? { signer: checkout.signer } : {}),
+    });
+    const lintForAdd = async (name: string, checkout: AddSource, path: string) => {
+      // Catch a broken skill before it reaches everyone else's lockfile
+      const issues = await lintCheckout(checkout.dir, path);
+      if (opts.lint && lintFailed(issues)) {
+        const errors = issues.filter((issue) => issue.severity === "error");
         throw new Error(
-          `Skill '${skillName}' not found in ${resolvedSource}. Available skills: ${available.join(", ")}`
+          `${name} has an invalid SKILL.md:\n${errors.map(({ message }) => `  - ${message}`).join("\n")}\n` +
+          "Fix it in the source, or pass --no-lint to add it anyway."
         );
       }
-      skillPath = matched.path;
+      warnLintIssues(name, issues);
+      return issues;
+    };
+
+    try {
+      const { path } = pickSkill(main, { skill: opts.skill, path: wantedPath });
+      added.push({ name: skillName, checkout: main, path, lint: await lintForAdd(upstreamName, main, path) });
+
+      for (let i = 0; i < added.length; i++) {
+        const dependent = added[i];
+        for (const dependency of await readDependencies(join(dependent.checkout.dir, dependent.path))) {
+          const depSource = dependency.source
+            ? expandSource(normalizeLocalSource(dependency.source, scope.root))
+            : dependent.checkout.source;
+          let checkout = checkouts.get(depSource);
+          if (!checkout) {
+            refuseSource(dependency.skill ?? basename(dependency.path!), depSource);
+            log(`Resolving ${dependency.skill ?? dependency.path} from ${dependency.source}...`);
+            checkout = await checkoutForAdd(depSource);
+            checkouts.set(depSource, checkout);
+          }
+          const { name, path } = pickSkill(checkout, dependency);
+          if (name === dependent.name) continue;
+          requiredBy.set(name, [...(requiredBy.get(name) ?? []), dependent.name]);
 
-      console.log(`Installing ${skillName} at ${ref.slice(0, 7)}...`);
-      await installSkill(repoDir, skillName, undefined, skillPath);
+          const queued = added.find((skill) => skill.name === name);
+          const existing = queued ? { source: queued.checkout.source, path: queued.path } : existingLockfile?.skills[name];
+          if (existing) {
+            if (existing.source !== checkout.source || existing.path !== path) {
+              throw new Error(
+                `${dependent.name} requires ${name} from ${checkout.source} (${path}), ` +
+                `which clashes with ${name} from ${existing.source} (${existing.path})`
+              );
+            }
+            if (!queued) log(`  ${name} — already in skills.lock`);
+            continue;
+          }
+          added.push({ name, checkout, path, lint: await lintForAdd(name, checkout, path) });
+        }
+      }
+
+      if (requiredBy.size > 0 && existingLockfile?.version === 1) {
+        throw new Error("Recording skill dependencies needs lockfile version 2 — run 'skills-lock migrate' first");
+      }
+
+      // A full SHA pins the content; a signature says who published it
+      if (signatures) {
+        if (existingLockfile?.version === 1) {
+          throw new Error(SIGNERS_NEED_V2);
+        }
+        for (const checkout of new Set(added.map((skill) => skill.checkout))) {
+          if (!checkout.ref) throw new Error(noCommitToVerify(checkout.source));
+          try {
+            checkout.signer = await verifyCommitSignature(checkout.dir, checkout.ref, signatures);
+          } catch (err: unknown) {
+            throw new Error(`${errorMessage(err)} (${checkout.source})`);
+          }
+          log(`  ${checkout.source} at ${shortRef(checkout.ref)} — signed by ${checkout.signer}`);
+        }
+      }
+
+      // integrity is only known once a skill is installed, and add always records it
+      const violations = policy
+        ? added.flatMap((skill) => findViolations(policy, skill.name, { ...entryFor(skill), integrity: "" }))
+        : [];
+      if (violations.length > 0) dieWithViolations(violations);
+
+      // Dependencies go on disk before the skills that need them
+      for (const { name, checkout, path } of [...added].reverse()) {
+        const required = name === skillName ? "" : ` (required by ${requiredBy.get(name)!.join(", ")})`;
+        log(`Installing ${name} at ${shortRef(checkout.ref, checkout.archive)}${required}...`);
+        await installSkillFromCheckout(checkout.dir, name, path, { quiet: jsonOutput, installer, global: scope.global });
+      }
     } finally {
-      await cleanupClone(repoDir);
+      for (const checkout of checkouts.values()) {
+        if (checkout.kind !== "file") await cleanupClone(checkout.dir);
+      }
     }
 
-    // Compute hash and write local metadata
-    const skillDir = join(".agents", "skills", skillName);
-    const integrity = await computeSkillHash(skillDir);
-    await writeSkillMetadata(skillDir, ref, integrity);
-
     // Read or create lockfile
-    const lockfile = (await readLockfile()) ?? { version: 1 as const, skills: {} };
+    const lockfile: Lockfile = (await readLockfile(scope.lockfilePath)) ?? { version: LATEST_LOCKFILE_VERSION, skills: {} };
 
-    lockfile.skills[skillName] = {
-      source: resolvedSource,
-      path: skillPath,
-      ref,
-      integrity,
-    };
+    for (const { name, checkout, path } of added) {
+      // Compute hash and write local metadata
+      const skillDir = installer.locate(name, scope);
+      const integrity = await computeSkillHash(skillDir);
+      await writeSkillMetadata(skillDir, checkout.ref, integrity);
+      await linkTargets(name, installer, targets);
+
+      const previous = lockfile.skills[name];
+      lockfile.skills[name] = {
+        ...entryFor({ checkout, path }, integrity),
+        ...(previous?.requiredBy ? { requiredBy: previous.requiredBy } : {}),
+      };
+    }
+
+    // The added skills' dependencies were read afresh, so they replace any
+    // back-references recorded the last time they were added
+    const addedNames = added.map(({ name }) => name);
+    for (const entry of Object.values(lockfile.skills)) {
+      const dependents = entry.requiredBy?.filter((name) => !addedNames.includes(name)) ?? [];
+      if (dependents.length > 0) {
+        entry.requiredBy = dependents;
+      } else {
+        delete entry.requiredBy;
+      }
+    }
+    for (const [name, dependents] of requiredBy) {
+      lockfile.skills[name].requiredBy = [...new Set([...(lockfile.skills[name].requiredBy ?? []), ...dependents])].sort();
+    }
 
-    await writeLockfile(lockfile);
-    console.log(`Added ${skillName} to skills.lock (ref: ${ref.slice(0, 7)})`);
+    await writeLockfile(lockfile, scope.lockfilePath);
+    const { ref, archive } = main;
+    if (jsonOutput) {
+      emit({
+        name: skillName,
+        added: true,
+        ...lockfile.skills[skillName],
+        lint: added[0].lint,
+        dependencies: added.slice(1).map(({ name, lint }) => ({ name, ...lockfile.skills[name], lint })),
+      });
+    }
+    log(`Added ${skillName} to skills.lock (ref: ${shortRef(ref, archive)})`);
+    for (const { name } of added.slice(1)) {
+      log(`Added ${name} to skills.lock (required by ${requiredBy.get(name)!.join(", ")})`);
+    }
   }));
 
 program
   .command("remove <skill-name>")
   .description("Remove a skill and delete it from skills.lock")
-  .action(action(async (skillName: string) => {
-    const lockfile = await readLockfile();
+  .option("--recursive", "Also remove every skill that requires this one")
+  .addOption(installerOption())
+  .action(action(async (skillName: string, opts: { recursive?: boolean; installer?: InstallerKind }) => {
+    const lockfile = await readLockfile(scope.lockfilePath);
+    const wasLocked = Boolean(lockfile?.skills[skillName]);
 
-    if (lockfile && lockfile.skills[skillName]) {
-      delete lockfile.skills[skillName];
-      await writeLockfile(lockfile);
+    // Removing a dependency would leave the skills that need it broken
+    const dependents = lockfile && wasLocked ? findDependents(lockfile, skillName) : [];
+    if (dependents.length > 0 && !opts.recursive) {
+      die(
+        `Cannot remove ${skillName}: required by ${dependents.join(", ")}. ` +
+        `Pass --recursive to remove ${dependents.length === 1 ? "it" : "them"} too.`
+      );
     }
+    const toRemove = [...dependents, skillName];
 
-    await removeSkill(skillName);
-    console.log(`Removed ${skillName}`);
+    if (lockfile && wasLocked) {
+      removeFromLockfile(lockfile, toRemove);
+      await writeLockfile(lockfile, scope.lockfilePath);
+    }
+
+    const { installer, targets } = await loadSetup(opts.installer);
+    for (const name of toRemove) {
+      await unlinkSkillTargets(name, installer.locate(name, scope), targets);
+      await removeSkill(name, { quiet: jsonOutput, installer, global: scope.global });
+      log(`Removed ${name}`);
+    }
+    if (jsonOutput) emit({ name: skillName, removedFromLockfile: wasLocked, dependents });
   }));
 
 program
   .command("update [skill-name]")
   .description("Update skills to latest versions from source repos")
-  .action(action(async (skillName?: string) => {
-    const lockfile = await readLockfile();
+  .option("--concurrency <n>", "Number of skills to update in parallel", parseConcurrency, 1)
+  .option("--dry-run", "Show what would be updated, with upstream changes, without installing or writing skills.lock")
+  .addOption(installerOption())
+  .action(action(async (
+    skillName: string | undefined,
+    opts: { concurrency: number; dryRun?: boolean; installer?: InstallerKind }
+  ) => {
+    const lockfile = await readLockfile(scope.lockfilePath);
     if (!lockfile) die("No skills.lock found. Run 'skills-lock add' to start.");
 
     if (skillName && !lockfile.skills[skillName]) {
@@ -204,132 +808,576 @@ program
       ? { [skillName]: lockfile.skills[skillName] }
       : lockfile.skills;
 
-    let updatedCount = 0;
+    const { installer, targets, signatures } = await loadSetup(opts.installer);
+    if (Object.keys(toUpdate).length > 0 && !opts.dryRun) await installer.check?.();
+    // Only a real update writes signer fields; a dry run just reports it
+    const needsMigration = Boolean(signatures) && lockfile.version === 1;
+    if (needsMigration && !opts.dryRun) die(SIGNERS_NEED_V2);
+    if (needsMigration && !jsonOutput) console.error(`Warning: ${SIGNERS_NEED_V2}`);
 
-    for (const [name, entry] of Object.entries(toUpdate)) {
-      console.log(`Checking ${name}...`);
+    // Resolve each (source, track) once; every skill from it shares the checkout
+    const groups = [...groupBy(
+      Object.entries(toUpdate),
+      ([, entry]) => `${expandSource(entry.source)} ${entry.track ?? ""}`
+    ).values()];
+    const quiet = opts.concurrency > 1 || jsonOutput;
+    const failures: { name: string; error: unknown }[] = [];
+    const updated: {
+      name: string;
+      from?: string;
+      to?: string;
+      integrity?: string;
+      signer?: string;
+      changelog?: SkillChangelog;
+    }[] = [];
+    const upToDate: string[] = [];
 
-      const repoDir = await resolveRepo(entry.source);
-      let latestRef: string;
-      try {
-        latestRef = await resolveRef(repoDir);
-      } finally {
-        await cleanupClone(repoDir);
+    const resolved = await mapConcurrent(groups, opts.concurrency, async (group) => {
+      const { source, track } = group[0][1];
+      log(track ? `Checking ${source} (tracking ${track})...` : `Checking ${source}...`);
+      const kind = sourceKind(source);
+      if (kind === "file") {
+        const repoDir = await resolveLocalSource(source, scope.root);
+        return { kind, repoDir, latestRef: await resolveLocalRef(repoDir) };
       }
-
-      if (latestRef === entry.ref) {
-        console.log(`  ${name} — already up to date`);
-        continue;
+      if (kind === "archive") {
+        const { dir, archive } = await resolveArchive(source, undefined, scope.root);
+        return { kind, repoDir: dir, archive };
       }
+      // Each skill's latest ref depends on its path, so it's resolved per skill below
+      return { kind, repoDir: await resolveRepo(source, { ref: track, paths: group.map(([, entry]) => entry.path) }) };
+    });
 
-      console.log(`  ${name} — ${entry.ref.slice(0, 7)} → ${latestRef.slice(0, 7)}`);
+    let lockfileWrite = Promise.resolve();
 
-      // Reinstall at the latest ref
-      await removeSkill(name);
-      await installSkill(entry.source, name, latestRef, entry.path);
+    try {
+      const tasks = groups.flatMap((group, i) => group.map(([name, entry]) => ({ name, entry, checkout: resolved[i] })));
+      const results = await mapConcurrent(tasks, opts.concurrency, async ({ name, entry, checkout }) => {
+        if (checkout.status === "rejected") throw checkout.reason;
+        const { kind, repoDir, archive } = checkout.value;
 
-      const skillDir = join(".agents", "skills", name);
-      const integrity = await computeSkillHash(skillDir);
-      await writeSkillMetadata(skillDir, latestRef, integrity);
+        // A git skill moves to the last commit that touched its path, so
+        // commits elsewhere in the repo are not an update. Neither is a
+        // newer commit that left the skill's files byte-identical; a local
+        // source is pinned by content for the same reason.
+        const latestRef = kind === "git" ? await resolvePathRef(repoDir, entry.path) : checkout.value.latestRef;
+        const current =
+          kind === "file"
+            ? (await computeSkillHash(join(repoDir, entry.path))) === entry.integrity
+            : kind === "archive"
+              ? archive === entry.archive
+              : latestRef === entry.ref || (await isPathUnchanged(repoDir, entry.path, entry.ref!, latestRef!));
+        if (current) {
+          log(`  ${name} — already up to date`);
+          upToDate.push(name);
+          return;
+        }
+
+        // The changelog is informational; an old ref the source no longer
+        // has shouldn't block the update
+        const changelog =
+          kind === "git"
+            ? await readChangelog(entry.source, entry.path, entry.ref!, latestRef!).catch(() => undefined)
+            : undefined;
+        log(
+          (kind === "git"
+            ? `  ${name} — ${shortRef(entry.ref)} → ${shortRef(latestRef)}`
+            : `  ${name} — ${kind === "file" ? "content" : "archive"} changed at ${entry.source}`) +
+          (changelog ? formatChangelog(changelog) : "")
+        );
+
+        // An archive is pinned by its hash rather than a commit
+        const [from, to] = kind === "archive" ? [entry.archive, archive] : [entry.ref, latestRef];
+        if (opts.dryRun) {
+          updated.push({ name, from, to, changelog });
+          return;
+        }
+
+        // The new commit needs a trusted signature too, though not
+        // necessarily from the same key
+        let signer: string | undefined;
+        if (signatures) {
+          if (!latestRef) {
+            throw new Error(noCommitToVerify(`'${name}'`));
+          }
+          signer = await verifyCommitSignature(repoDir, latestRef, signatures);
+          if (entry.signer && signer !== entry.signer) log(`  ${name} — now signed by ${signer} (was ${entry.signer})`);
+        }
+
+        // Reinstall at the latest ref, straight from the checkout we resolved
+        await removeSkill(name, { quiet, installer, global: scope.global });
+        await installSkillFromCheckout(repoDir, name, entry.path, { quiet, installer, global: scope.global });
+
+        const skillDir = installer.locate(name, scope);
+        const integrity = await computeSkillHash(skillDir);
+        await writeSkillMetadata(skillDir, latestRef, integrity);
+        await linkTargets(name, installer, targets);
+
+        lockfile.skills[name] = { ...entry, ref: latestRef, ...(archive ? { archive } : {}), integrity, signer };
+        // A signer only vouches for the commit it was verified on
+        if (!signer) delete lockfile.skills[name].signer;
+
+        // Write after each successful update so partial runs are safe.
+        // Writes are chained so concurrent updates never interleave on disk.
+        lockfileWrite = lockfileWrite.then(() => writeLockfile(lockfile, scope.lockfilePath));
+        await lockfileWrite;
+        updated.push({ name, from, to, integrity, ...(signer ? { signer } : {}), changelog });
+      });
 
-      lockfile.skills[name] = { ...entry, ref: latestRef, integrity };
+      results.forEach((result, i) => {
+        if (result.status === "rejected") failures.push({ name: tasks[i].name, error: result.reason });
+      });
+    } finally {
+      for (const checkout of resolved) {
+        if (checkout.status === "fulfilled" && checkout.value.kind !== "file") await cleanupClone(checkout.value.repoDir);
+      }
+    }
 
-      // Write after each successful update so partial runs are safe
-      await writeLockfile(lockfile);
-      updatedCount++;
+    if (jsonOutput) {
+      emit({
+        ...(opts.dryRun ? { dryRun: true } : {}),
+        ...(needsMigration ? { needsMigration: true } : {}),
+        updated: updated.sort((a, b) => a.name.localeCompare(b.name)),
+        upToDate: upToDate.sort(),
+        failed: failures.map(({ name, error }) => ({ name, error: errorMessage(error) })),
+      });
+      if (failures.length > 0) process.exit(1);
+      return;
     }
 
+    if (failures.length > 0) dieWithFailures("update", failures);
+
+    const updatedCount = updated.length;
     if (updatedCount === 0) {
-      console.log(Object.keys(toUpdate).length === 0 ? "No skills to update." : "Everything up to date.");
+      log(Object.keys(toUpdate).length === 0 ? "No skills to update." : "Everything up to date.");
+    } else if (opts.dryRun) {
+      log(`${updatedCount} skill(s) would be updated (dry run, nothing installed).`);
     } else {
-      console.log(`Updated ${updatedCount} skill(s).`);
+      log(`Updated ${updatedCount} skill(s).`);
     }
   }));
 
 program
-  .command("check")
-  .description("Compare installed skills against skills.lock, including refs and file integrity")
-  .action(action(async () => {
-    const lockfile = await readLockfile();
+  .command("outdated [skill-name]")
+  .description("List skills with newer versions in their sources, without installing anything (exits 1 if any)")
+  .option("--concurrency <n>", "Number of sources to check in parallel", parseConcurrency, 1)
+  .action(action(async (skillName: string | undefined, opts: { concurrency: number }) => {
+    const lockfile = await readLockfile(scope.lockfilePath);
     if (!lockfile) die("No skills.lock found. Run 'skills-lock add' to start.");
 
-    const installed = await scanInstalledSkills();
-    const installedMap = new Map(installed.map((s) => [s.name, s]));
-    const lockedNames = new Set(Object.keys(lockfile.skills));
+    if (skillName && !lockfile.skills[skillName]) {
+      die(`Skill '${skillName}' not found in skills.lock`);
+    }
 
-    const missing: string[] = [];
-    const wrongRef: { name: string; have: string; want: string }[] = [];
-    const modified: string[] = [];
-    const unverified: string[] = [];
-    const extra = installed.map((s) => s.name).filter((n) => !lockedNames.has(n));
+    const toCheck = skillName ? { ...lockfile, skills: { [skillName]: lockfile.skills[skillName] } } : lockfile;
+    const { outdated, upToDate, failed } = await findOutdated(toCheck, { concurrency: opts.concurrency, root: scope.root });
 
-    for (const [name, entry] of Object.entries(lockfile.skills)) {
-      const installedSkill = installedMap.get(name);
-      if (!installedSkill) {
-        missing.push(name);
-        continue;
-      }
+    if (jsonOutput) {
+      emit({ outdated, upToDate, failed });
+      if (outdated.length > 0 || failed.length > 0) process.exit(1);
+      return;
+    }
 
-      const meta = installedSkill.metadata;
-      if (!meta) {
-        unverified.push(name);
-        continue;
+    if (outdated.length > 0) {
+      log("Outdated (run 'skills-lock update' to update):");
+      for (const skill of outdated) {
+        if (skill.kind !== "git") {
+          log(`  - ${skill.name}: ${skill.kind === "file" ? "content" : "archive"} changed at ${skill.source}`);
+          continue;
+        }
+        const at = (ref?: string, date?: string) => `${shortRef(ref)}${date ? ` (${date.slice(0, 10)})` : ""}`;
+        log(
+          `  - ${skill.name}: ${at(skill.current, skill.currentDate)} → ${at(skill.latest, skill.latestDate)}, ` +
+          `${skill.commits} commit(s) touching ${skill.path}`
+        );
       }
+    }
 
-      if (meta.ref !== entry.ref) {
-        wrongRef.push({ name, have: meta.ref, want: entry.ref });
-        continue;
-      }
+    if (failed.length > 0) dieWithFailures("check", failed);
+
+    if (outdated.length > 0) process.exit(1);
+    log(Object.keys(toCheck.skills).length === 0 ? "No skills to check." : "Everything up to date.");
+  }));
+
+program
+  .command("lint [paths...]")
+  .description("Validate SKILL.md frontmatter against the Agent Skills spec (defaults to every installed skill in skills.lock)")
+  .option("--strict", "Fail on warnings as well as errors")
+  .addOption(installerOption())
+  .action(action(async (paths: string[], opts: { strict?: boolean; installer?: InstallerKind }) => {
+    const skills: { name: string; path: string; dirName?: string }[] = [];
 
-      if (entry.integrity) {
-        const diskHash = await computeSkillHash(installedSkill.diskPath);
-        if (diskHash !== entry.integrity) {
-          modified.push(name);
+    if (paths.length > 0) {
+      for (const path of paths) {
+        let found: string[];
+        try {
+          found = await findSkillMdFiles(path);
+        } catch {
+          die(`Cannot read ${path}`);
+        }
+        if (found.length === 0) die(`No SKILL.md found under ${path}`);
+        for (const skillPath of found) {
+          const dir = join(path, skillPath);
+          const dirName = basename(resolve(dir));
+          skills.push({ name: dirName, path: dir, dirName });
+        }
+      }
+    } else {
+      const lockfile = await readLockfile(scope.lockfilePath);
+      if (!lockfile) die("No skills.lock found. Run 'skills-lock add' to start, or pass paths to lint.");
+      const { installer } = await loadSetup(opts.installer);
+      for (const [name, entry] of Object.entries(lockfile.skills)) {
+        const dir = installer.locate(name, scope);
+        if (!existsSync(dir)) {
+          log(`Skipping ${name} (not installed — run 'skills-lock install' first)`);
           continue;
         }
+        // An alias renames the installed directory, so match against the upstream one
+        skills.push({ name, path: dir, dirName: entry.path === "." ? undefined : basename(entry.path) });
       }
     }
 
-    const hasIssues =
-      missing.length > 0 ||
-      wrongRef.length > 0 ||
-      modified.length > 0 ||
-      unverified.length > 0 ||
-      extra.length > 0;
+    const results = await Promise.all(
+      skills.map(async ({ name, path, dirName }) => ({ name, path, issues: await lintSkill(path, dirName) }))
+    );
+    const ok = !results.some(({ issues }) => lintFailed(issues, opts.strict));
+
+    if (jsonOutput) {
+      emit({ ok, skills: results });
+      if (!ok) process.exit(1);
+      return;
+    }
+
+    for (const { name, path, issues } of results) {
+      if (issues.length === 0) continue;
+      log(`${name} (${path}):`);
+      for (const { severity, message } of issues) log(`  - ${severity}: ${message}`);
+    }
+
+    if (!ok) process.exit(1);
+    if (results.length === 0) {
+      log("No skills to lint.");
+    } else if (results.every(({ issues }) => issues.length === 0)) {
+      log(`${results.length} skill(s) OK.`);
+    }
+  }));
+
+program
+  .command("check")
+  .description("Compare installed skills against skills.lock, including refs and file integrity")
+  .option("--concurrency <n>", "Number of skills to hash in parallel", parseConcurrency, 1)
+  .option("--report <format=path>", "Also write a report: junit=<path> or sarif=<path> (repeatable)", collectReport)
+  .option("--policy [path]", `Also check skills.lock against ${POLICY_PATH} (or the policy at <path>); violations exit 2`)
+  .action(action(async (opts: { concurrency: number; report?: ReportSpec[]; policy?: boolean | string }) => {
+    const lockfile = await readLockfile(scope.lockfilePath);
+    if (!lockfile) die("No skills.lock found. Run 'skills-lock add' to start.");
+
+    const policyPath = typeof opts.policy === "string" ? opts.policy : scope.policyPath;
+    let violations: PolicyViolation[] = [];
+    if (opts.policy) {
+      const policy = await readPolicy(policyPath);
+      if (!policy) die(`No policy found at ${policyPath}`);
+      violations = checkPolicy(policy, lockfile);
+    }
+
+    const targets = getTargets(await readConfig(scope.configPath), scope.root);
+    const result = await checkSkills(lockfile, { concurrency: opts.concurrency, targets });
+    const where = (target?: string) => (target ? ` (${target})` : "");
+    const { missing, wrongRef, modified, unverified, extra } = result;
+
+    // A project skill wins over a global one of the same name, so a
+    // different ref means agents see a different version in this project.
+    // Worth a warning, but not a failure.
+    const globalLockfile = scope.global ? null : await readLockfile(globalScope().lockfilePath);
+    const shadowed = globalLockfile ? findShadowedSkills(lockfile, globalLockfile) : [];
+
+    if (opts.report) {
+      const lockfileText = await readFile(scope.lockfilePath, "utf-8");
+      await writeReports(opts.report, result, { version, lockfileText, lockfilePath: scope.lockfilePath, targets });
+    }
 
-    if (!hasIssues) {
-      console.log("All skills verified.");
+    // Policy violations get their own exit code, so CI can tell a forbidden
+    // skill apart from one that merely drifted
+    const exitCode = violations.length > 0 ? POLICY_EXIT_CODE : checkPassed(result) ? 0 : 1;
+
+    if (jsonOutput) {
+      emit({ ok: exitCode === 0, ...result, shadowed, ...(opts.policy ? { policy: violations } : {}) });
+      if (exitCode !== 0) process.exit(exitCode);
+      return;
+    }
+
+    for (const { name, ref, globalRef } of shadowed) {
+      console.error(
+        `Warning: ${name} shadows a global skill at a different ref (project ${shortRef(ref)}, global ${shortRef(globalRef)})`
+      );
+    }
+
+    if (exitCode === 0) {
+      log("All skills verified.");
       return;
     }
 
     if (missing.length > 0) {
-      console.log("Missing (in lockfile but not installed):");
-      for (const name of missing) console.log(`  - ${name}`);
+      log("Missing (in lockfile but not installed):");
+      for (const { name, target } of missing) log(`  - ${name}${where(target)}`);
     }
 
     if (wrongRef.length > 0) {
-      console.log("Wrong ref (run 'skills-lock install' to fix):");
-      for (const { name, have, want } of wrongRef) {
-        console.log(`  - ${name}: have ${have.slice(0, 7)}, want ${want.slice(0, 7)}`);
+      log("Wrong ref (run 'skills-lock install' to fix):");
+      for (const { name, have, want, target } of wrongRef) {
+        log(`  - ${name}${where(target)}: have ${shortRef(have)}, want ${shortRef(want)}`);
       }
     }
 
     if (modified.length > 0) {
-      console.log("Modified on disk (run 'skills-lock install' to restore):");
-      for (const name of modified) console.log(`  - ${name}`);
+      log("Modified on disk (run 'skills-lock install' to restore):");
+      for (const { name, target } of modified) log(`  - ${name}${where(target)}`);
     }
 
     if (unverified.length > 0) {
-      console.log("Unverified (installed outside skills-lock — run 'skills-lock install' to pin):");
-      for (const name of unverified) console.log(`  - ${name}`);
+      log("Unverified (installed outside skills-lock — run 'skills-lock install' to pin):");
+      for (const { name, target } of unverified) log(`  - ${name}${where(target)}`);
     }
 
     if (extra.length > 0) {
-      console.log("Extra (installed but not in lockfile — run 'skills-lock remove <name>' to remove):");
-      for (const name of extra) console.log(`  - ${name}`);
+      log("Extra (installed but not in lockfile — run 'skills-lock remove <name>' to remove):");
+      for (const { name, target } of extra) log(`  - ${name}${where(target)}`);
+    }
+
+    if (violations.length > 0) {
+      log(`Policy violations (${policyPath}):`);
+      for (const { name, message } of violations) log(`  - ${name}: ${message}`);
     }
 
+    process.exit(exitCode);
+  }));
+
+program
+  .command("diff [rev-a] [rev-b]")
+  .description("Show how skills.lock changed between two git revisions (defaults to HEAD vs. the working tree)")
+  .action(action(async (revA: string | undefined, revB: string | undefined) => {
+    const from = revA ?? "HEAD";
+    const empty: Lockfile = { version: 1, skills: {} };
+
+    // A lockfile that doesn't exist on one side is treated as empty,
+    // so the commit that introduces skills.lock shows every skill as added.
+    const oldLock = (await readLockfileAtRevision(from, scope.lockfilePath)) ?? empty;
+    const newLock = (revB ? await readLockfileAtRevision(revB, scope.lockfilePath) : await readLockfile(scope.lockfilePath)) ?? empty;
+
+    const diff = diffLockfiles(oldLock, newLock);
+    const summarize = (entry: SkillEntry) => ({
+      source: entry.source,
+      path: entry.path,
+      ref: entry.ref,
+      ...(entry.archive ? { archive: entry.archive } : {}),
+      integrity: entry.integrity ?? null,
+    });
+
+    if (jsonOutput) {
+      emit({
+        from,
+        to: revB ?? "working tree",
+        added: diff.added.sort().map((name) => ({ name, ...summarize(newLock.skills[name]) })),
+        removed: diff.removed.sort().map((name) => ({ name, ...summarize(oldLock.skills[name]) })),
+        changed: diff.changed.sort().map((name) => ({
+          name,
+          old: summarize(oldLock.skills[name]),
+          new: summarize(newLock.skills[name]),
+        })),
+      });
+      return;
+    }
+
+    if (diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0) {
+      log("No changes to skills.lock.");
+      return;
+    }
+
+    if (diff.added.length > 0) {
+      log("Added:");
+      for (const name of diff.added.sort()) {
+        const entry = newLock.skills[name];
+        log(`  + ${name} (${entry.source} ${entry.path} at ${shortRef(entry.ref, entry.archive)})`);
+      }
+    }
+
+    if (diff.removed.length > 0) {
+      log("Removed:");
+      for (const name of diff.removed.sort()) {
+        const entry = oldLock.skills[name];
+        log(`  - ${name} (was at ${shortRef(entry.ref, entry.archive)})`);
+      }
+    }
+
+    if (diff.changed.length > 0) {
+      log("Changed:");
+      for (const name of diff.changed.sort()) {
+        const o = oldLock.skills[name];
+        const n = newLock.skills[name];
+        log(`  ~ ${name}: ${shortRef(o.ref, o.archive)} → ${shortRef(n.ref, n.archive)}`);
+        if (o.integrity !== n.integrity) {
+          log(`      integrity: ${o.integrity ?? "(none)"} → ${n.integrity ?? "(none)"}`);
+        }
+      }
+    }
+  }));
+
+program
+  .command("migrate")
+  .description(`Upgrade skills.lock to lockfile version ${LATEST_LOCKFILE_VERSION}`)
+  .action(action(async () => {
+    const lockfile = await readLockfile(scope.lockfilePath);
+    if (!lockfile) die("No skills.lock found. Run 'skills-lock add' to start.");
+
+    const from = lockfile.version;
+    if (from === LATEST_LOCKFILE_VERSION) {
+      if (jsonOutput) emit({ from, to: from, migrated: false });
+      log(`skills.lock is already at version ${from}.`);
+      return;
+    }
+
+    await writeLockfile(migrateLockfile(lockfile), scope.lockfilePath);
+    if (jsonOutput) emit({ from, to: LATEST_LOCKFILE_VERSION, migrated: true });
+    log(`Migrated skills.lock from version ${from} to ${LATEST_LOCKFILE_VERSION}.`);
+  }));
+
+program
+  .command("merge-driver [base] [ours] [theirs]")
+  .description("Three-way merge skills.lock for git (%O %A %B), or register the driver with --install")
+  .option("--install", "Register the merge driver in .git/config and .gitattributes")
+  .action(action(async (
+    basePath: string | undefined,
+    oursPath: string | undefined,
+    theirsPath: string | undefined,
+    opts: { install?: boolean }
+  ) => {
+    if (scope.global) die("merge-driver works on the files git passes it and does not support --global");
+
+    if (opts.install) {
+      const attributesUpdated = await installMergeDriver();
+      if (jsonOutput) emit({ installed: true, attributesUpdated });
+      log("Registered the skills-lock merge driver in .git/config.");
+      log(attributesUpdated ? "Added skills.lock to .gitattributes." : ".gitattributes already routes skills.lock to it.");
+      return;
+    }
+
+    if (!basePath || !oursPath || !theirsPath) {
+      die("Usage: skills-lock merge-driver <base> <ours> <theirs>, or skills-lock merge-driver --install");
+    }
+
+    const { merged, conflicts } = mergeLockfiles(
+      await readMergeInput(basePath),
+      await readMergeInput(oursPath),
+      await readMergeInput(theirsPath)
+    );
+
+    // Git takes the merge result from the "ours" file
+    await writeLockfile(merged, oursPath);
+
+    if (jsonOutput) emit({ ok: conflicts.length === 0, conflicts });
+    if (conflicts.length === 0) return;
+
+    const describe = (entry: SkillEntry | undefined) => (entry ? shortRef(entry.ref, entry.archive) : "removed");
+    const lines = conflicts.map(({ name, ours, theirs }) =>
+      ours && theirs && describe(ours) === describe(theirs)
+        ? `  - ${name}: both sides changed it differently at ${describe(ours)}`
+        : `  - ${name}: ours ${describe(ours)}, theirs ${describe(theirs)}`
+    );
+    if (!jsonOutput) {
+      console.error(`Conflicting changes to ${conflicts.length} skill(s) in skills.lock (kept ours):`);
+      console.error(lines.join("\n"));
+    }
     process.exit(1);
   }));
 
+const cache = program
+  .command("cache")
+  .description("Manage the local clone cache used by install, add, and update");
+
+cache
+  .command("ls")
+  .description("List cached source repositories")
+  .action(action(async () => {
+    const repos = await listCachedRepos();
+    if (jsonOutput) {
+      emit({ cacheDir: getCacheDir(), repos });
+      return;
+    }
+    log(`Cache directory: ${getCacheDir()}`);
+
+    if (repos.length === 0) {
+      log("Cache is empty.");
+      return;
+    }
+
+    for (const repo of repos) {
+      log(`  ${repo.source} (${repo.key}, fetched ${repo.fetchedAt ?? "unknown"})`);
+    }
+  }));
+
+cache
+  .command("verify")
+  .description("Check cached repositories for corruption")
+  .action(action(async () => {
+    const repos = await listCachedRepos();
+    if (repos.length === 0) {
+      if (jsonOutput) emit({ repos: [] });
+      log("Cache is empty.");
+      return;
+    }
+
+    let corrupt = 0;
+    const verified: { source: string; key: string; ok: boolean; error?: string }[] = [];
+    for (const repo of repos) {
+      const error = await verifyCachedRepo(repo);
+      verified.push({ source: repo.source, key: repo.key, ok: !error, ...(error ? { error } : {}) });
+      if (error) {
+        log(`  ${repo.source} — corrupt: ${error}`);
+        corrupt++;
+      } else {
+        log(`  ${repo.source} — ok`);
+      }
+    }
+
+    if (jsonOutput) {
+      emit({ repos: verified });
+      if (corrupt > 0) process.exit(1);
+      return;
+    }
+
+    if (corrupt > 0) {
+      die(`${corrupt} cached repo(s) are corrupt. Run 'skills-lock cache clean' to remove them.`);
+    }
+    log("All cached repos verified.");
+  }));
+
+cache
+  .command("clean [source]")
+  .description("Remove cached repositories (all of them, or just the given source)")
+  .action(action(async (source?: string) => {
+    const removed = await cleanCache(source ? expandSource(source) : undefined);
+    if (jsonOutput) emit({ removed });
+    log(removed === 0 ? "Nothing to clean." : `Removed ${removed} cached repo(s).`);
+  }));
+
+cache
+  .command("import <bundle> <source>")
+  .description("Import a git bundle into the cache for <source>, for installing offline")
+  .action(action(async (bundle: string, source: string) => {
+    const url = expandSource(source);
+    await importBundle(bundle, url);
+    if (jsonOutput) emit({ source: url, bundle });
+    log(`Imported ${bundle} into the cache for ${url}`);
+  }));
+
+cache
+  .command("export <source> <bundle>")
+  .description("Write the cached repo for <source> to a git bundle file")
+  .action(action(async (source: string, bundle: string) => {
+    const url = expandSource(source);
+    await exportBundle(url, bundle);
+    if (jsonOutput) emit({ source: url, bundle });
+    log(`Exported the cache for ${url} to ${bundle}`);
+  }));
+
 program.parse();
@@ -0,0 +1,98 @@
+import { readFile } from "node:fs/promises";
+import { isAbsolute, join } from "node:path";
+import { SKILLS_DIR } from "./installer.js";
+import type { SkillsLockConfig } from "./types.js";
+
+export const CONFIG_PATH = "skills-lock.config.json";
+
+/**
+ * Skill directories to install into and check: the configured targets,
+ * or just the canonical .agents/skills. Relative targets are resolved
+ * against `root` (the home directory for global skills).
+ */
+export function getTargets(config: SkillsLockConfig, root: string = "."): string[] {
+  return (config.targets ?? [SKILLS_DIR]).map((target) => (isAbsolute(target) ? target : join(root, target)));
+}
+
+/**
+ * Read and validate skills-lock.config.json from the current directory.
+ * Returns an empty config if the file doesn't exist.
+ */
+export async function readConfig(path: string = CONFIG_PATH): Promise<SkillsLockConfig> {
+  let raw: string;
+  try {
+    raw = await readFile(path, "utf-8");
+  } catch (err: unknown) {
+    if (err instanceof Error && "code" in err && (err as NodeJS.ErrnoException).code === "ENOENT") {
+      return {};
+    }
+    throw err;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (err: unknown) {
+    throw new Error(`Invalid ${path}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  validateConfig(parsed, path);
+  return parsed;
+}
+
+/**
+ * Validate that an object conforms to the config schema.
+ * Throws on invalid input.
+ */
+export function validateConfig(data: unknown, path: string = CONFIG_PATH): asserts data is SkillsLockConfig {
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    throw new Error(`${path} must be a JSON object`);
+  }
+
+  const obj = data as Record<string, unknown>;
+
+  if (obj.targets !== undefined) {
+    if (
+      !Array.isArray(obj.targets) ||
+      obj.targets.length === 0 ||
+      obj.targets.some((t) => typeof t !== "string" || t.trim() === "")
+    ) {
+      throw new Error(`${path} has invalid 'targets' — must be a non-empty list of directories`);
+    }
+  }
+
+  const trust = obj.verifySignatures;
+  if (trust !== undefined) {
+    const spec = trust as Record<string, unknown>;
+    if (
+      typeof trust !== "object" ||
+      trust === null ||
+      Array.isArray(trust) ||
+      Object.keys(spec).some((key) => !["allowedSigners", "keyring"].includes(key) || typeof spec[key] !== "string") ||
+      Object.keys(spec).length === 0
+    ) {
+      throw new Error(
+        `${path} has invalid 'verifySignatures' — use { "allowedSigners": "<path>" }, { "keyring": "<path>" } or both`
+      );
+    }
+  }
+
+  const installer = obj.installer;
+  if (installer === undefined || installer === "native" || installer === "skills-cli") return;
+
+  if (typeof installer === "object" && installer !== null) {
+    const spec = installer as Record<string, unknown>;
+    if (typeof spec.module === "string") return;
+    if (
+      typeof spec.install === "string" &&
+      typeof spec.remove === "string" &&
+      (spec.dir === undefined || typeof spec.dir === "string")
+    ) {
+      return;
+    }
+  }
+
+  throw new Error(
+    `${path} has invalid 'installer' — use "native", "skills-cli", ` +
+    `{ "install": "<command>", "remove": "<command>" } or { "module": "<path>" }`
+  );
+}
@@ -0,0 +1,63 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { parse } from "yaml";
+import { parseDependencies, splitFrontmatter } from "./lint.js";
+import type { Lockfile, SkillDependency } from "./types.js";
+
+/**
+ * Read the dependencies declared in a skill directory's SKILL.md.
+ * A skill without SKILL.md frontmatter or `dependencies` has none.
+ */
+export async function readDependencies(skillDir: string): Promise<SkillDependency[]> {
+  const parts = splitFrontmatter(await readFile(join(skillDir, "SKILL.md"), "utf-8"));
+  if (!parts) return [];
+
+  let fields: unknown;
+  try {
+    fields = parse(parts.frontmatter);
+  } catch {
+    throw new Error(`Cannot read dependencies from ${skillDir}: its SKILL.md frontmatter is not valid YAML`);
+  }
+  if (typeof fields !== "object" || fields === null || !("dependencies" in fields)) return [];
+
+  try {
+    return parseDependencies(fields.dependencies);
+  } catch (err: unknown) {
+    throw new Error(`Cannot read dependencies from ${skillDir}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+/**
+ * Every locked skill that requires `name`, directly or through other
+ * skills, following `requiredBy` back-references. Dangling references
+ * (e.g. from a hand-edited lockfile) are ignored.
+ */
+export function findDependents(lockfile: Lockfile, name: string): string[] {
+  const found = new Set<string>();
+  const queue = [name];
+  while (queue.length > 0) {
+    for (const dependent of lockfile.skills[queue.shift()!]?.requiredBy ?? []) {
+      if (dependent === name || found.has(dependent) || !lockfile.skills[dependent]) continue;
+      found.add(dependent);
+      queue.push(dependent);
+    }
+  }
+  return [...found];
+}
+
+/**
+ * Delete skills from a lockfile, along with the back-references other
+ * skills hold to them.
+ */
+export function removeFromLockfile(lockfile: Lockfile, names: string[]): void {
+  for (const name of names) delete lockfile.skills[name];
+  for (const entry of Object.values(lockfile.skills)) {
+    if (!entry.requiredBy) continue;
+    const requiredBy = entry.requiredBy.filter((dependent) => !names.includes(dependent));
+    if (requiredBy.length > 0) {
+      entry.requiredBy = requiredBy;
+    } else {
+      delete entry.requiredBy;
+    }
+  }
+}
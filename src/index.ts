@@ -1,13 +1,89 @@
 export type {
   SkillEntry,
+  SourceKind,
   Lockfile,
+  LockfileVersion,
   ResolvedSkill,
   InstalledSkill,
+  InstallerKind,
+  Installer,
+  InstallerConfig,
+  SkillsLockConfig,
+  Scope,
+  InstallOptions,
   LockfileDiff,
   ResolveOptions,
+  CachedRepo,
+  CheckResult,
+  OutdatedSkill,
+  SkillChangelog,
+  OutdatedResult,
+  LintIssue,
+  SkillDependency,
+  SkillsPolicy,
+  PolicyField,
+  PolicyViolation,
+  SignatureTrust,
+  LockfileMergeResult,
 } from "./types.js";
 
-export { readLockfile, writeLockfile, validateLockfile, diffLockfiles } from "./lockfile.js";
-export { resolveRepo, resolveRef, findSkills, expandSource, cloneAtRef, cleanupClone } from "./resolver.js";
-export { installSkill, removeSkill } from "./installer.js";
-export { scanInstalledSkills } from "./scanner.js";
+export {
+  readLockfile,
+  readLockfileAtRevision,
+  parseLockfile,
+  writeLockfile,
+  validateLockfile,
+  migrateLockfile,
+  diffLockfiles,
+  shortRef,
+  LATEST_LOCKFILE_VERSION,
+} from "./lockfile.js";
+export {
+  resolveRepo,
+  resolveRef,
+  resolvePathRef,
+  isPathUnchanged,
+  findSkills,
+  expandSource,
+  cloneAtRef,
+  cleanupClone,
+  isLocalSource,
+  normalizeLocalSource,
+  resolveLocalSource,
+  resolveLocalRef,
+  sourceKind,
+  checkoutEntry,
+} from "./resolver.js";
+export { isArchiveSource, resolveArchive, hashArchive } from "./archive.js";
+export {
+  installSkill,
+  installSkillFromCheckout,
+  removeSkill,
+  skillsCliInstaller,
+  nativeInstaller,
+  commandInstaller,
+  loadInstaller,
+  linkSkillTargets,
+  unlinkSkillTargets,
+} from "./installer.js";
+export { readConfig, validateConfig, getTargets } from "./config.js";
+export { verifyCommitSignature, verifyPinnedSigner } from "./signatures.js";
+export { readPolicy, validatePolicy, checkPolicy, findViolations, isSourceAllowed, matchesPattern } from "./policy.js";
+export { getConfigDir, projectScope, globalScope } from "./scope.js";
+export { scanInstalledSkills, readInstalledSkill } from "./scanner.js";
+export { checkSkills, checkPassed, findShadowedSkills } from "./check.js";
+export { findOutdated } from "./outdated.js";
+export { readChangelog } from "./changelog.js";
+export { lintSkill, lintSkillMd, lintFailed, splitFrontmatter, parseDependencies } from "./lint.js";
+export { readDependencies, findDependents, removeFromLockfile } from "./dependencies.js";
+export { renderJUnit, renderSarif } from "./report.js";
+export { mergeLockfiles, installMergeDriver } from "./merge.js";
+export {
+  getCacheDir,
+  fetchCachedRepo,
+  ensureCachedCommit,
+  ensureCachedFiles,
+  listCachedRepos,
+  verifyCachedRepo,
+  cleanCache,
+} from "./cache.js";
@@ -1,12 +1,35 @@
 import { execa } from "execa";
-import { access, readdir, readFile, writeFile, stat } from "node:fs/promises";
+import { access, cp, lstat, mkdir, readdir, readFile, readlink, rm, symlink, writeFile, stat } from "node:fs/promises";
 import { createHash } from "node:crypto";
-import { join } from "node:path";
-import { cloneAtRef, cleanupClone } from "./resolver.js";
-import type { SkillMetadata } from "./types.js";
+import { homedir } from "node:os";
+import { basename, dirname, isAbsolute, join, relative, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import { resolveArchive } from "./archive.js";
+import { cloneAtRef, cleanupClone, findSkills, resolveLocalSource, resolveRepo, sourceKind } from "./resolver.js";
+import type { InstallOptions, Installer, InstallerConfig, InstallerKind, SkillMetadata } from "./types.js";
 
 export const SKILL_METADATA_FILE = ".skills-lock";
 
+/** Canonical directory skills are installed into. */
+export const SKILLS_DIR = join(".agents", "skills");
+
+/**
+ * Agent-specific skill directories the native installer links into, keyed by
+ * the project (or, for global skills, home) directory that shows the agent
+ * is in use. Agents that read .agents/skills directly need no link.
+ */
+const AGENT_LINK_DIRS: Record<string, string> = {
+  ".claude": join(".claude", "skills"),
+};
+
+/**
+ * Directory that skill directories are relative to: the project, or the
+ * home directory for global skills.
+ */
+function skillsRoot(global?: boolean): string {
+  return global ? homedir() : ".";
+}
+
 /**
  * Compute a deterministic SHA-256 hash of all files in a skill directory.
  * Files are walked recursively and sorted by path for reproducibility.
@@ -41,10 +64,10 @@ export async function computeSkillHash(skillDir: string): Promise<string> {
  */
 export async function writeSkillMetadata(
   skillDir: string,
-  ref: string,
+  ref: string | undefined,
   integrity: string
 ): Promise<void> {
-  const meta: SkillMetadata = { ref, integrity };
+  const meta: SkillMetadata = { ...(ref ? { ref } : {}), integrity };
   await writeFile(
     join(skillDir, SKILL_METADATA_FILE),
     JSON.stringify(meta, null, 2) + "\n",
@@ -63,7 +86,7 @@ export async function readSkillMetadata(
     const raw = await readFile(join(skillDir, SKILL_METADATA_FILE), "utf-8");
     const parsed = JSON.parse(raw);
     if (
-      typeof parsed?.ref === "string" &&
+      (parsed?.ref === undefined || typeof parsed.ref === "string") &&
       typeof parsed?.integrity === "string"
     ) {
       return parsed as SkillMetadata;
@@ -99,54 +122,296 @@ export async function checkSkillsCli(): Promise<void> {
 }
 
 /**
- * Install a skill by calling `npx skills add`.
+ * Installs skills by shelling out to `npx skills add` / `npx skills remove`.
+ */
+export const skillsCliInstaller: Installer = {
+  name: "skills-cli",
+
+  check: checkSkillsCli,
+
+  async install(source, skillName, options) {
+    await checkSkillsCli();
+    await execa(
+      "npx",
+      ["skills", "add", source, "--skill", skillName, "--yes", ...(options?.global ? ["--global"] : [])],
+      { stdio: options?.quiet ? "pipe" : "inherit" }
+    );
+  },
+
+  async remove(skillName, options) {
+    await checkSkillsCli();
+    await execa(
+      "npx",
+      ["skills", "remove", "--skill", skillName, "--yes", ...(options?.global ? ["--global"] : [])],
+      { stdio: options?.quiet ? "pipe" : "inherit" }
+    );
+  },
+
+  locate: (skillName, options) => join(skillsRoot(options?.global), SKILLS_DIR, skillName),
+};
+
+/**
+ * Installs skills by copying them into .agents/skills/<name> and linking
+ * them into the skill directory of every agent in use.
+ */
+export const nativeInstaller: Installer = {
+  name: "native",
+
+  async install(source, skillName, options) {
+    const root = skillsRoot(options?.global);
+    const skillDir = await locateSkillDir(source, skillName);
+    const dest = join(root, SKILLS_DIR, skillName);
+    await rm(dest, { recursive: true, force: true });
+    await mkdir(dirname(dest), { recursive: true });
+    await cp(skillDir, dest, { recursive: true, filter: (src) => basename(src) !== ".git" });
+
+    for (const [marker, linkDir] of Object.entries(AGENT_LINK_DIRS)) {
+      if (await exists(join(root, marker))) await linkSkill(join(root, linkDir), skillName, dest);
+    }
+  },
+
+  // Agent directories holding a real copy of the skill are left alone
+  async remove(skillName, options) {
+    const root = skillsRoot(options?.global);
+    const dest = join(root, SKILLS_DIR, skillName);
+    for (const linkDir of Object.values(AGENT_LINK_DIRS)) {
+      await unlinkSkill(join(root, linkDir), skillName, dest);
+    }
+    await rm(dest, { recursive: true, force: true });
+  },
+
+  locate: (skillName, options) => join(skillsRoot(options?.global), SKILLS_DIR, skillName),
+};
+
+/**
+ * Build an installer from command templates, e.g.
+ * `{ install: "my-wrapper add {source} --name {name}", remove: "my-wrapper rm {name}" }`.
+ *
+ * Templates are split on whitespace and run without a shell, so `{source}`
+ * and `{name}` are substituted as whole arguments and need no quoting.
+ * `dir` is where the command puts skills (default .agents/skills); a
+ * relative `dir` is under the home directory for global skills.
+ */
+export function commandInstaller(templates: { install: string; remove: string; dir?: string }): Installer {
+  const dir = templates.dir ?? SKILLS_DIR;
+
+  async function run(template: string, vars: Record<string, string>, quiet?: boolean): Promise<void> {
+    const [command, ...args] = template
+      .trim()
+      .split(/\s+/)
+      .map((arg) => arg.replace(/\{(source|name)\}/g, (_, key: string) => vars[key] ?? ""));
+    await execa(command, args, { stdio: quiet ? "pipe" : "inherit" });
+  }
+
+  return {
+    name: "command",
+    install: (source, skillName, options) => run(templates.install, { source, name: skillName }, options?.quiet),
+    remove: (skillName, options) => run(templates.remove, { name: skillName }, options?.quiet),
+    locate: (skillName, options) => (isAbsolute(dir) ? join(dir, skillName) : join(skillsRoot(options?.global), dir, skillName)),
+  };
+}
+
+/**
+ * Turn an installer setting (from --installer or the config file) into an
+ * Installer: a built-in name, command templates, or a module whose default
+ * export implements Installer. Module paths are relative to `baseDir`, the
+ * directory of the config file that declared them.
+ */
+export async function loadInstaller(config: InstallerConfig = "skills-cli", baseDir: string = "."): Promise<Installer> {
+  if (config === "skills-cli") return skillsCliInstaller;
+  if (config === "native") return nativeInstaller;
+  if ("install" in config) return commandInstaller(config);
+
+  const mod = await import(pathToFileURL(resolve(baseDir, config.module)).href);
+  const installer = mod.default ?? mod.installer;
+  if (
+    typeof installer?.install !== "function" ||
+    typeof installer?.remove !== "function" ||
+    typeof installer?.locate !== "function"
+  ) {
+    throw new Error(
+      `Installer module '${config.module}' must export an object with install, remove and locate functions`
+    );
+  }
+  return installer as Installer;
+}
+
+/**
+ * Install a skill with the given installer (the `skills` CLI by default).
  *
  * When `ref` is provided, clones the source repo at that exact commit SHA
  * and installs from the local checkout — ensuring reproducible installs.
+ * With `offline`, the checkout must come from the local clone cache.
  * Without `ref`, installs the latest version from the source.
+ * A local "file:" source is installed from the directory itself, and an
+ * archive source from the extracted archive.
  */
 export async function installSkill(
   source: string,
   skillName: string,
   ref?: string,
-  skillPath?: string
+  skillPath?: string,
+  options?: { offline?: boolean; global?: boolean; installer?: Installer }
 ): Promise<void> {
-  await checkSkillsCli();
-  if (ref) {
-    const repoDir = await cloneAtRef(source, ref);
-    try {
-      const installSource = skillPath ? join(repoDir, skillPath) : repoDir;
-      if (skillPath) {
-        await access(join(installSource, "SKILL.md"));
-      }
+  const installer = options?.installer ?? skillsCliInstaller;
+  await installer.check?.();
 
-      await execa(
-        "npx",
-        ["skills", "add", installSource, "--skill", skillName, "--yes"],
-        { stdio: "inherit" }
-      );
+  const kind = sourceKind(source);
+  const paths = skillPath ? [skillPath] : undefined;
+  if (kind === "file") {
+    const dir = await resolveLocalSource(source);
+    await installSkillFromCheckout(dir, skillName, skillPath, { installer, global: options?.global });
+  } else if (kind === "archive" || ref || installer !== skillsCliInstaller) {
+    const repoDir = kind === "archive"
+      ? (await resolveArchive(source)).dir
+      : ref
+        ? await cloneAtRef(source, ref, { ...options, paths })
+        : await resolveRepo(source, { paths });
+    try {
+      await installSkillFromCheckout(repoDir, skillName, skillPath, { installer, global: options?.global });
     } finally {
       await cleanupClone(repoDir);
     }
   } else {
+    // The skills CLI can fetch the source itself
     const installSource = skillPath ? join(source, skillPath) : source;
-    await execa(
-      "npx",
-      ["skills", "add", installSource, "--skill", skillName, "--yes"],
-      { stdio: "inherit" }
+    await installer.install(installSource, skillName, { global: options?.global });
+  }
+}
+
+/**
+ * Install a skill from an existing local checkout.
+ * Lets callers check out a repo once and install several skills from it.
+ * The caller owns the checkout and is responsible for cleaning it up.
+ * With `quiet`, installer output is captured instead of streamed, so
+ * parallel installs don't interleave on the terminal.
+ */
+export async function installSkillFromCheckout(
+  repoDir: string,
+  skillName: string,
+  skillPath?: string,
+  options?: InstallOptions & { installer?: Installer }
+): Promise<void> {
+  const installer = options?.installer ?? skillsCliInstaller;
+  const installSource = skillPath ? join(repoDir, skillPath) : repoDir;
+  if (skillPath) {
+    await access(join(installSource, "SKILL.md"));
+  }
+  // `npx skills add --skill` selects by upstream name and installs under it
+  if (installer === skillsCliInstaller && skillPath && skillPath !== "." && basename(skillPath) !== skillName) {
+    throw new Error(
+      `'${skillName}' is an alias for ${skillPath}, and the skills CLI can't install a skill under another name. ` +
+      "Use --installer native or a command installer."
     );
   }
+
+  await installer.install(installSource, skillName, { quiet: options?.quiet, global: options?.global });
 }
 
 /**
- * Remove a skill by calling `npx skills remove`.
- * Uses --skill flag and --yes to skip confirmation prompts.
+ * Remove a skill with the given installer (the `skills` CLI by default).
  */
-export async function removeSkill(skillName: string): Promise<void> {
-  await checkSkillsCli();
-  await execa(
-    "npx",
-    ["skills", "remove", "--skill", skillName, "--yes"],
-    { stdio: "inherit" }
-  );
+export async function removeSkill(
+  skillName: string,
+  options?: InstallOptions & { installer?: Installer }
+): Promise<void> {
+  const installer = options?.installer ?? skillsCliInstaller;
+  await installer.remove(skillName, { quiet: options?.quiet, global: options?.global });
+}
+
+/**
+ * Make an installed skill available in every target directory by linking
+ * <target>/<name> to the skill's install location. Targets already pointing
+ * there are left alone; anything else in the way (a stale copy or a link
+ * elsewhere) is replaced. Returns the targets that were (re)linked.
+ */
+export async function linkSkillTargets(
+  skillName: string,
+  skillDir: string,
+  targets: string[]
+): Promise<string[]> {
+  const linked: string[] = [];
+  for (const target of targets) {
+    const entry = join(target, skillName);
+    if (resolve(entry) === resolve(skillDir)) continue;
+    if (await pointsTo(entry, skillDir)) continue;
+    await linkSkill(target, skillName, skillDir);
+    linked.push(target);
+  }
+  return linked;
+}
+
+/**
+ * Remove the links to an installed skill from every target directory.
+ * Targets holding a real copy of the skill are left alone.
+ */
+export async function unlinkSkillTargets(
+  skillName: string,
+  skillDir: string,
+  targets: string[]
+): Promise<void> {
+  for (const target of targets) {
+    await unlinkSkill(target, skillName, skillDir);
+  }
+}
+
+/**
+ * Replace <linkDir>/<name> with a link to `dest`.
+ */
+async function linkSkill(linkDir: string, skillName: string, dest: string): Promise<void> {
+  const link = join(linkDir, skillName);
+  await mkdir(linkDir, { recursive: true });
+  await rm(link, { recursive: true, force: true });
+  // Junctions need an absolute target on Windows; elsewhere a relative
+  // link keeps the project relocatable.
+  const target = process.platform === "win32" ? resolve(dest) : relative(linkDir, dest);
+  await symlink(target, link, "junction");
+}
+
+/**
+ * Remove <linkDir>/<name> if it is a link to `dest`.
+ */
+async function unlinkSkill(linkDir: string, skillName: string, dest: string): Promise<void> {
+  const link = join(linkDir, skillName);
+  try {
+    if (!(await lstat(link)).isSymbolicLink()) return;
+    if (resolve(linkDir, await readlink(link)) === resolve(dest)) await rm(link, { force: true });
+  } catch {
+    // Nothing installed there
+  }
+}
+
+/**
+ * Whether `path` is a symlink to `dest`.
+ */
+async function pointsTo(path: string, dest: string): Promise<boolean> {
+  try {
+    if (!(await lstat(path)).isSymbolicLink()) return false;
+    return resolve(dirname(path), await readlink(path)) === resolve(dest);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Find a skill's directory: `source` itself if it holds a SKILL.md,
+ * otherwise the directory named after the skill somewhere inside it.
+ */
+async function locateSkillDir(source: string, skillName: string): Promise<string> {
+  if (await exists(join(source, "SKILL.md"))) return source;
+
+  const match = (await findSkills(source, source)).find((s) => s.name === skillName);
+  if (!match) {
+    throw new Error(`Skill '${skillName}' not found in the source repo`);
+  }
+  return join(source, match.path);
+}
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await lstat(path);
+    return true;
+  } catch {
+    return false;
+  }
 }
@@ -0,0 +1,178 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { parse } from "yaml";
+import type { LintIssue, SkillDependency } from "./types.js";
+
+/**
+ * Frontmatter fields defined by the Agent Skills spec, plus `dependencies`,
+ * which skills-lock reads when adding a skill.
+ */
+const KNOWN_FIELDS = new Set([
+  "name",
+  "description",
+  "license",
+  "compatibility",
+  "metadata",
+  "allowed-tools",
+  "dependencies",
+]);
+
+const MAX_NAME_LENGTH = 64;
+const MAX_DESCRIPTION_LENGTH = 1024;
+const MAX_COMPATIBILITY_LENGTH = 500;
+
+/**
+ * Split a SKILL.md into its YAML frontmatter (between the leading "---"
+ * lines) and the markdown body. Returns null when there is no frontmatter.
+ */
+export function splitFrontmatter(text: string): { frontmatter: string; body: string } | null {
+  const match = /^\uFEFF?---\r?\n([\s\S]*?)\r?\n?---[ \t]*(?:\r?\n|$)/.exec(text);
+  if (!match) return null;
+  return { frontmatter: match[1], body: text.slice(match[0].length) };
+}
+
+/**
+ * Validate the `dependencies` frontmatter field: a list of skill names, or
+ * of mappings with `source` and `skill` or `path`.
+ */
+export function parseDependencies(value: unknown): SkillDependency[] {
+  const invalid = () =>
+    new Error("'dependencies' must be a list of skill names or of mappings with 'source' and 'skill' or 'path'");
+  if (!Array.isArray(value)) throw invalid();
+
+  return value.map((item: unknown) => {
+    if (typeof item === "string" && item.length > 0) return { skill: item };
+    if (typeof item !== "object" || item === null || Array.isArray(item)) throw invalid();
+
+    const fields = item as Record<string, unknown>;
+    const strings = Object.keys(fields).every(
+      (key) => ["source", "skill", "path"].includes(key) && typeof fields[key] === "string"
+    );
+    if (!strings || (fields.skill === undefined && fields.path === undefined)) throw invalid();
+    return fields as SkillDependency;
+  });
+}
+
+/**
+ * Validate the contents of a SKILL.md against the Agent Skills spec.
+ * `dirName` is the skill's upstream directory name, which `name` must match;
+ * pass undefined to skip that check (e.g. for a skill at a repo's root).
+ */
+export function lintSkillMd(text: string, dirName?: string): LintIssue[] {
+  const issues: LintIssue[] = [];
+  const error = (message: string) => issues.push({ severity: "error", message });
+  const warning = (message: string) => issues.push({ severity: "warning", message });
+
+  const parts = splitFrontmatter(text);
+  if (!parts) {
+    error("SKILL.md has no YAML frontmatter (it must start with a '---' line)");
+    return issues;
+  }
+
+  let data: unknown;
+  try {
+    data = parse(parts.frontmatter);
+  } catch (err: unknown) {
+    const detail = err instanceof Error ? err.message.split("\n")[0] : String(err);
+    error(`Frontmatter is not valid YAML: ${detail}`);
+    return issues;
+  }
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    error("Frontmatter must be a YAML mapping of fields");
+    return issues;
+  }
+  const fields = data as Record<string, unknown>;
+
+  const name = fields["name"];
+  if (typeof name !== "string" || name.length === 0) {
+    error("Missing required field 'name'");
+  } else {
+    if (name.length > MAX_NAME_LENGTH) {
+      error(`'name' is ${name.length} characters long; the limit is ${MAX_NAME_LENGTH}`);
+    }
+    if (!/^[a-z0-9]+(-[a-z0-9]+)*$/.test(name)) {
+      error(
+        `'name' must be lowercase letters, digits and single hyphens, not starting or ending with a hyphen (got '${name}')`
+      );
+    }
+    if (dirName !== undefined && name !== dirName) {
+      error(`'name' is '${name}', but must match the skill's directory name '${dirName}'`);
+    }
+  }
+
+  const description = fields["description"];
+  if (typeof description !== "string" || description.trim().length === 0) {
+    error("Missing required field 'description'");
+  } else if (description.length > MAX_DESCRIPTION_LENGTH) {
+    error(`'description' is ${description.length} characters long; the limit is ${MAX_DESCRIPTION_LENGTH}`);
+  }
+
+  if ("license" in fields && typeof fields["license"] !== "string") {
+    error("'license' must be a string");
+  }
+
+  const compatibility = fields["compatibility"];
+  if ("compatibility" in fields) {
+    if (typeof compatibility !== "string") {
+      error("'compatibility' must be a string");
+    } else if (compatibility.length > MAX_COMPATIBILITY_LENGTH) {
+      error(`'compatibility' is ${compatibility.length} characters long; the limit is ${MAX_COMPATIBILITY_LENGTH}`);
+    }
+  }
+
+  const metadata = fields["metadata"];
+  if (
+    "metadata" in fields &&
+    (typeof metadata !== "object" ||
+      metadata === null ||
+      Array.isArray(metadata) ||
+      Object.values(metadata).some((value) => typeof value !== "string"))
+  ) {
+    error("'metadata' must be a mapping of strings to strings");
+  }
+
+  if ("allowed-tools" in fields && typeof fields["allowed-tools"] !== "string") {
+    error("'allowed-tools' must be a space-separated string");
+  }
+
+  if ("dependencies" in fields) {
+    try {
+      parseDependencies(fields["dependencies"]);
+    } catch (err: unknown) {
+      error(err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  for (const field of Object.keys(fields)) {
+    if (!KNOWN_FIELDS.has(field)) {
+      warning(`Unknown frontmatter field '${field}' (put custom fields under 'metadata')`);
+    }
+  }
+
+  if (parts.body.trim().length === 0) {
+    warning("SKILL.md has no instructions after the frontmatter");
+  }
+
+  return issues;
+}
+
+/**
+ * Read and validate a skill directory's SKILL.md.
+ * `dirName` is the upstream directory name that `name` must match.
+ */
+export async function lintSkill(skillDir: string, dirName?: string): Promise<LintIssue[]> {
+  let text: string;
+  try {
+    text = await readFile(join(skillDir, "SKILL.md"), "utf-8");
+  } catch {
+    return [{ severity: "error", message: "No SKILL.md found" }];
+  }
+  return lintSkillMd(text, dirName);
+}
+
+/**
+ * Whether any issue is an error (or, with `strict`, any issue at all).
+ */
+export function lintFailed(issues: LintIssue[], strict?: boolean): boolean {
+  return issues.some((issue) => strict || issue.severity === "error");
+}
@@ -1,7 +1,20 @@
-import { readFile, writeFile } from "node:fs/promises";
-import type { Lockfile, LockfileDiff } from "./types.js";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { basename, dirname } from "node:path";
+import { simpleGit } from "simple-git";
+import { sourceKind } from "./resolver.js";
+import type { Lockfile, LockfileDiff, LockfileVersion } from "./types.js";
 
-const LOCKFILE_PATH = "skills.lock";
+export const LOCKFILE_PATH = "skills.lock";
+
+/**
+ * Schema version written for new lockfiles and by `migrate`.
+ */
+export const LATEST_LOCKFILE_VERSION: LockfileVersion = 2;
+
+/**
+ * Entry fields that only exist from lockfile version 2 on.
+ */
+const V2_FIELDS = ["notes", "provenance", "requiredBy", "signer"] as const;
 
 /**
  * Read and parse skills.lock from the current directory.
@@ -12,9 +25,7 @@ export async function readLockfile(
 ): Promise<Lockfile | null> {
   try {
     const raw = await readFile(path, "utf-8");
-    const parsed = JSON.parse(raw);
-    validateLockfile(parsed);
-    return parsed as Lockfile;
+    return parseLockfile(raw);
   } catch (err: unknown) {
     if (err instanceof Error && "code" in err && (err as NodeJS.ErrnoException).code === "ENOENT") {
       return null;
@@ -23,6 +34,44 @@ export async function readLockfile(
   }
 }
 
+/**
+ * Read and parse skills.lock as it was committed at a git revision of the
+ * repository containing it.
+ * Returns null if the file doesn't exist at that revision.
+ * Throws if the revision itself cannot be resolved.
+ */
+export async function readLockfileAtRevision(
+  rev: string,
+  path: string = LOCKFILE_PATH
+): Promise<Lockfile | null> {
+  const git = simpleGit(dirname(path));
+
+  try {
+    await git.revparse(["--verify", `${rev}^{commit}`]);
+  } catch {
+    throw new Error(`Unknown git revision '${rev}'`);
+  }
+
+  let raw: string;
+  try {
+    // "./" makes the path relative to the current directory, not the repo root
+    raw = await git.show([`${rev}:./${basename(path)}`]);
+  } catch {
+    return null;
+  }
+
+  return parseLockfile(raw);
+}
+
+/**
+ * Parse and validate the raw JSON contents of a lockfile.
+ */
+export function parseLockfile(raw: string): Lockfile {
+  const parsed = JSON.parse(raw);
+  validateLockfile(parsed);
+  return parsed;
+}
+
 /**
  * Write a lockfile to disk with sorted keys for deterministic output.
  */
@@ -40,12 +89,14 @@ export async function writeLockfile(
     ),
   };
 
+  // The global lockfile's directory may not exist yet
+  await mkdir(dirname(path), { recursive: true });
   await writeFile(path, JSON.stringify(sorted, null, 2) + "\n", "utf-8");
 }
 
 /**
- * Validate that an object conforms to the Lockfile schema.
- * Throws on invalid input.
+ * Validate that an object conforms to the Lockfile schema of its declared version.
+ * Throws on invalid input, including lockfiles written by a newer skills-lock.
  */
 export function validateLockfile(data: unknown): asserts data is Lockfile {
   if (typeof data !== "object" || data === null) {
@@ -53,9 +104,15 @@ export function validateLockfile(data: unknown): asserts data is Lockfile {
   }
 
   const obj = data as Record<string, unknown>;
+  const version = obj.version;
 
-  if (obj.version !== 1) {
-    throw new Error(`Unsupported lockfile version: ${obj.version}`);
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+    throw new Error(`Unsupported lockfile version: ${version}`);
+  }
+  if (version > LATEST_LOCKFILE_VERSION) {
+    throw new Error(
+      `Unsupported lockfile version: ${version} — this skills-lock supports versions up to ${LATEST_LOCKFILE_VERSION}; upgrade skills-lock to read it`
+    );
   }
 
   if (typeof obj.skills !== "object" || obj.skills === null) {
@@ -70,37 +127,142 @@ export function validateLockfile(data: unknown): asserts data is Lockfile {
     }
 
     const skill = entry as Record<string, unknown>;
-    const required = ["source", "path", "ref"] as const;
-
-    for (const field of required) {
-      if (typeof skill[field] !== "string") {
-        throw new Error(
-          `Skill '${name}' missing or invalid field '${field}'`
-        );
-      }
+    if (version === 1) {
+      validateV1Entry(name, skill);
+    } else {
+      validateV2Entry(name, skill);
+    }
+  }
+}
+
+/**
+ * Validate a skill entry of a version 1 lockfile.
+ */
+function validateV1Entry(name: string, skill: Record<string, unknown>): void {
+  validateCommonFields(name, skill);
+
+  for (const field of V2_FIELDS) {
+    if (skill[field] !== undefined) {
+      throw new Error(
+        `Skill '${name}' has field '${field}', which needs lockfile version 2 — run 'skills-lock migrate'`
+      );
+    }
+  }
+}
+
+/**
+ * Validate a skill entry of a version 2 lockfile.
+ */
+function validateV2Entry(name: string, skill: Record<string, unknown>): void {
+  validateCommonFields(name, skill);
+
+  if (skill["notes"] !== undefined && typeof skill["notes"] !== "string") {
+    throw new Error(`Skill '${name}' has invalid 'notes' field — must be a string`);
+  }
+
+  const provenance = skill["provenance"];
+  if (provenance !== undefined) {
+    if (
+      typeof provenance !== "object" ||
+      provenance === null ||
+      Array.isArray(provenance) ||
+      Object.values(provenance).some((v) => typeof v !== "string")
+    ) {
+      throw new Error(`Skill '${name}' has invalid 'provenance' field — must be an object of strings`);
+    }
+  }
+
+  const requiredBy = skill["requiredBy"];
+  if (
+    requiredBy !== undefined &&
+    (!Array.isArray(requiredBy) || requiredBy.some((dependent) => typeof dependent !== "string" || dependent === ""))
+  ) {
+    throw new Error(`Skill '${name}' has invalid 'requiredBy' field — must be an array of skill names`);
+  }
+
+  if (skill["signer"] !== undefined && (typeof skill["signer"] !== "string" || skill["signer"] === "")) {
+    throw new Error(`Skill '${name}' has invalid 'signer' field — must be a key fingerprint`);
+  }
+}
+
+/**
+ * Validate the entry fields shared by every lockfile version.
+ */
+function validateCommonFields(name: string, skill: Record<string, unknown>): void {
+  // Archives are pinned by their own hash, and a local directory outside git
+  // has no commit, so its content hash is the pin
+  const kind = typeof skill["source"] === "string" ? sourceKind(skill["source"]) : "git";
+  const required = {
+    git: ["source", "path", "ref"],
+    file: ["source", "path", "integrity"],
+    archive: ["source", "path", "archive"],
+  }[kind];
+
+  for (const field of required) {
+    if (typeof skill[field] !== "string") {
+      throw new Error(
+        `Skill '${name}' missing or invalid field '${field}'`
+      );
     }
+  }
 
-    // Enforce full 40-char hex commit SHA
-    if (!/^[0-9a-f]{40}$/.test(skill["ref"] as string)) {
+  if (kind === "archive" && skill["ref"] !== undefined) {
+    throw new Error(`Skill '${name}' has a 'ref', but archive sources are pinned by 'archive' instead`);
+  }
+  if (kind !== "archive" && skill["archive"] !== undefined) {
+    throw new Error(`Skill '${name}' has an 'archive' hash, but its source is not an archive`);
+  }
+  if (kind === "archive" && !/^sha256:[0-9a-f]{64}$/.test(skill["archive"] as string)) {
+    throw new Error(
+      `Skill '${name}' has invalid archive hash '${skill["archive"]}' — must be "sha256:<64 hex chars>"`
+    );
+  }
+
+  // Enforce full 40-char hex commit SHA
+  if (skill["ref"] !== undefined && (typeof skill["ref"] !== "string" || !/^[0-9a-f]{40}$/.test(skill["ref"]))) {
+    throw new Error(
+      `Skill '${name}' has invalid ref '${skill["ref"]}' — must be a full 40-character commit SHA`
+    );
+  }
+
+  // Validate optional integrity field
+  if (skill["integrity"] !== undefined) {
+    if (typeof skill["integrity"] !== "string") {
+      throw new Error(`Skill '${name}' has invalid 'integrity' field — must be a string`);
+    }
+    if (!/^sha256:[0-9a-f]{64}$/.test(skill["integrity"] as string)) {
       throw new Error(
-        `Skill '${name}' has invalid ref '${skill["ref"]}' — must be a full 40-character commit SHA`
+        `Skill '${name}' has invalid integrity '${skill["integrity"]}' — must be "sha256:<64 hex chars>"`
       );
     }
+  }
 
-    // Validate optional integrity field
-    if (skill["integrity"] !== undefined) {
-      if (typeof skill["integrity"] !== "string") {
-        throw new Error(`Skill '${name}' has invalid 'integrity' field — must be a string`);
-      }
-      if (!/^sha256:[0-9a-f]{64}$/.test(skill["integrity"] as string)) {
-        throw new Error(
-          `Skill '${name}' has invalid integrity '${skill["integrity"]}' — must be "sha256:<64 hex chars>"`
-        );
-      }
+  // Validate optional track field
+  if (skill["track"] !== undefined) {
+    if (typeof skill["track"] !== "string" || skill["track"].trim() === "") {
+      throw new Error(`Skill '${name}' has invalid 'track' field — must be a non-empty branch or tag name`);
     }
   }
 }
 
+/**
+ * Short form of what pins a skill, for messages: its commit, else the hash
+ * of its archive. A "file:" source outside a git repo has neither and shows
+ * as "local".
+ */
+export function shortRef(ref?: string, archive?: string): string {
+  if (ref) return ref.slice(0, 7);
+  return archive ? archive.slice(0, "sha256:".length + 7) : "local";
+}
+
+/**
+ * Upgrade a lockfile to the latest schema version.
+ * Every version 1 field carries over unchanged, so the migration is lossless.
+ */
+export function migrateLockfile(lockfile: Lockfile): Lockfile {
+  return { ...lockfile, version: LATEST_LOCKFILE_VERSION };
+}
+
 /**
  * Compute the diff between two lockfile states.
  */
@@ -117,7 +279,7 @@ export function diffLockfiles(
     if (!oldNames.has(n)) return false;
     const o = oldLock.skills[n];
     const nw = newLock.skills[n];
-    return o.ref !== nw.ref || o.integrity !== nw.integrity;
+    return o.ref !== nw.ref || o.archive !== nw.archive || o.integrity !== nw.integrity;
   });
 
   return { added, removed, changed };
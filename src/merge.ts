@@ -0,0 +1,104 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { simpleGit } from "simple-git";
+import { LOCKFILE_PATH, parseLockfile } from "./lockfile.js";
+import type { Lockfile, LockfileMergeResult, SkillEntry } from "./types.js";
+
+/** Name of the merge driver in .git/config and .gitattributes. */
+export const MERGE_DRIVER_NAME = "skills-lock";
+
+/**
+ * Read one side of a merge. Git passes an empty file as the base when the
+ * branches have no common ancestor, which counts as an empty lockfile.
+ */
+export async function readMergeInput(path: string): Promise<Lockfile> {
+  const raw = await readFile(path, "utf-8");
+  if (raw.trim() === "") return { version: 1, skills: {} };
+  return parseLockfile(raw);
+}
+
+/**
+ * Compare two skill entries field by field, ignoring key order.
+ */
+function sameEntry(a: SkillEntry | undefined, b: SkillEntry | undefined): boolean {
+  if (!a || !b) return a === b;
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].every(
+    (key) =>
+      JSON.stringify(a[key as keyof SkillEntry]) === JSON.stringify(b[key as keyof SkillEntry])
+  );
+}
+
+/**
+ * Three-way merge of lockfiles, one skill at a time.
+ *
+ * A skill changed (added, re-pinned or removed) on only one side takes that
+ * side's entry; a skill changed identically on both sides merges cleanly.
+ * Only a skill changed differently on both sides is a conflict — the merged
+ * lockfile keeps our entry for it so the result is still valid JSON.
+ */
+export function mergeLockfiles(base: Lockfile, ours: Lockfile, theirs: Lockfile): LockfileMergeResult {
+  const names = new Set([
+    ...Object.keys(base.skills),
+    ...Object.keys(ours.skills),
+    ...Object.keys(theirs.skills),
+  ]);
+
+  const merged: Lockfile = {
+    // A side that migrated wins, so its newer fields stay valid
+    version: Math.max(ours.version, theirs.version) as Lockfile["version"],
+    skills: {},
+  };
+  const conflicts: LockfileMergeResult["conflicts"] = [];
+
+  for (const name of [...names].sort()) {
+    const b = base.skills[name];
+    const o = ours.skills[name];
+    const t = theirs.skills[name];
+
+    let result: SkillEntry | undefined;
+    if (sameEntry(o, t) || sameEntry(b, t)) {
+      result = o;
+    } else if (sameEntry(b, o)) {
+      result = t;
+    } else {
+      result = o;
+      conflicts.push({
+        name,
+        ...(b ? { base: b } : {}),
+        ...(o ? { ours: o } : {}),
+        ...(t ? { theirs: t } : {}),
+      });
+    }
+
+    if (result) merged.skills[name] = result;
+  }
+
+  return { merged, conflicts };
+}
+
+/**
+ * Register the merge driver in the current repo's .git/config and route
+ * skills.lock in the current directory to it via .gitattributes.
+ * Safe to run more than once. Returns whether .gitattributes was changed.
+ */
+export async function installMergeDriver(): Promise<boolean> {
+  const git = simpleGit();
+  await git.addConfig(`merge.${MERGE_DRIVER_NAME}.name`, "skills.lock three-way merge");
+  await git.addConfig(`merge.${MERGE_DRIVER_NAME}.driver`, "npx skills-lock merge-driver %O %A %B");
+
+  const attribute = `${LOCKFILE_PATH} merge=${MERGE_DRIVER_NAME}`;
+  let attributes = "";
+  try {
+    attributes = await readFile(".gitattributes", "utf-8");
+  } catch (err: unknown) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+  }
+
+  if (attributes.split("\n").some((line) => line.trim() === attribute)) {
+    return false;
+  }
+
+  const separator = attributes === "" || attributes.endsWith("\n") ? "" : "\n";
+  await writeFile(".gitattributes", `${attributes}${separator}${attribute}\n`, "utf-8");
+  return true;
+}
@@ -0,0 +1,141 @@
+import { simpleGit, type SimpleGit } from "simple-git";
+import { join } from "node:path";
+import { hashArchiveSource } from "./archive.js";
+import { ensureCachedCommit, fetchCachedRepo } from "./cache.js";
+import { computeSkillHash } from "./installer.js";
+import { mapConcurrent } from "./pool.js";
+import {
+  expandSource,
+  isPathUnchanged,
+  resolveLocalRef,
+  resolveLocalSource,
+  resolvePathRef,
+  sourceKind,
+} from "./resolver.js";
+import type { Lockfile, OutdatedResult, OutdatedSkill, SkillEntry } from "./types.js";
+
+/**
+ * Compares one locked skill against its source's latest version.
+ * Resolves to null when the skill is up to date.
+ */
+type SkillComparer = (name: string, entry: SkillEntry) => Promise<OutdatedSkill | null>;
+
+/**
+ * ISO committer date of a commit.
+ */
+async function commitDate(git: SimpleGit, ref: string): Promise<string> {
+  return (await git.raw(["log", "-1", "--format=%cI", ref])).trim();
+}
+
+/**
+ * Resolve the latest version of a source once, and return a comparer for
+ * the skills locked from it. Git sources are resolved in the clone cache,
+ * without a checkout; local sources relative to `root`.
+ */
+async function resolveLatest(source: string, track: string | undefined, root: string): Promise<SkillComparer> {
+  const kind = sourceKind(source);
+
+  if (kind === "file") {
+    const dir = await resolveLocalSource(source, root);
+    const latest = await resolveLocalRef(dir);
+    // A local source is pinned by content, like `update` compares it
+    return async (name, entry) =>
+      (await computeSkillHash(join(dir, entry.path))) === entry.integrity
+        ? null
+        : { name, source, path: entry.path, kind, current: entry.ref, latest };
+  }
+
+  if (kind === "archive") {
+    const latest = await hashArchiveSource(source, root);
+    return async (name, entry) =>
+      entry.archive === latest ? null : { name, source, path: entry.path, kind, current: entry.archive, latest };
+  }
+
+  const url = expandSource(source);
+  const repoDir = await fetchCachedRepo(url);
+  const git = simpleGit(repoDir);
+  let tip: string;
+  try {
+    tip = (await git.revparse(["--verify", `${track ?? "HEAD"}^{commit}`])).trim();
+  } catch {
+    throw new Error(track ? `Branch or tag '${track}' not found in ${source}` : `No commits found in ${source}`);
+  }
+
+  return async (name, entry) => {
+    // validateLockfile() guarantees git sources have a ref
+    const current = entry.ref!;
+    // Like `update`: only commits that changed the skill's files count
+    const latest = await resolvePathRef(repoDir, entry.path, tip);
+    if (current === latest) return null;
+
+    await ensureCachedCommit(url, current);
+    if (await isPathUnchanged(repoDir, entry.path, current, latest)) return null;
+
+    // Only trees are needed to tell which commits touched the path, so this
+    // works on a partial clone without downloading any files
+    const range = ["rev-list", "--count", `${current}..${latest}`];
+    const count = await git.raw(entry.path === "." ? range : [...range, "--", entry.path]);
+    return {
+      name,
+      source,
+      path: entry.path,
+      kind,
+      current,
+      latest,
+      currentDate: await commitDate(git, current),
+      latestDate: await commitDate(git, latest),
+      commits: Number(count.trim()),
+    };
+  };
+}
+
+/**
+ * Find locked skills whose sources have changed since they were pinned:
+ * the last commit touching the skill's path on the tracked branch (the
+ * default branch unless `track` is set), the archive at its URL, or a local
+ * source's files. Nothing is installed or written. Each (source, track) is
+ * resolved once.
+ */
+export async function findOutdated(
+  lockfile: Lockfile,
+  options?: { concurrency?: number; root?: string }
+): Promise<OutdatedResult> {
+  const groups = new Map<string, [string, SkillEntry][]>();
+  for (const [name, entry] of Object.entries(lockfile.skills)) {
+    const key = `${expandSource(entry.source)} ${entry.track ?? ""}`;
+    groups.set(key, [...(groups.get(key) ?? []), [name, entry]]);
+  }
+
+  const result: OutdatedResult = { outdated: [], upToDate: [], failed: [] };
+  const fail = (name: string, err: unknown) =>
+    result.failed.push({ name, error: err instanceof Error ? err.message : String(err) });
+
+  await mapConcurrent([...groups.values()], options?.concurrency ?? 1, async (group) => {
+    const { source, track } = group[0][1];
+    let compare: SkillComparer;
+    try {
+      compare = await resolveLatest(source, track, options?.root ?? ".");
+    } catch (err) {
+      for (const [name] of group) fail(name, err);
+      return;
+    }
+
+    for (const [name, entry] of group) {
+      try {
+        const outdated = await compare(name, entry);
+        if (outdated) {
+          result.outdated.push(outdated);
+        } else {
+          result.upToDate.push(name);
+        }
+      } catch (err) {
+        fail(name, err);
+      }
+    }
+  });
+
+  result.outdated.sort((a, b) => a.name.localeCompare(b.name));
+  result.upToDate.sort();
+  result.failed.sort((a, b) => a.name.localeCompare(b.name));
+  return result;
+}
@@ -0,0 +1,118 @@
+import { readFile } from "node:fs/promises";
+import { basename } from "node:path";
+import type { Lockfile, PolicyField, PolicyViolation, SkillEntry, SkillsPolicy } from "./types.js";
+
+export const POLICY_PATH = "skills-policy.json";
+
+const POLICY_FIELDS: PolicyField[] = ["ref", "integrity", "track"];
+
+/**
+ * Read and validate skills-policy.json from the current directory.
+ * Returns null if the file doesn't exist, in which case nothing is enforced.
+ */
+export async function readPolicy(path: string = POLICY_PATH): Promise<SkillsPolicy | null> {
+  let raw: string;
+  try {
+    raw = await readFile(path, "utf-8");
+  } catch (err: unknown) {
+    if (err instanceof Error && "code" in err && (err as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw err;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (err: unknown) {
+    throw new Error(`Invalid ${path}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  validatePolicy(parsed, path);
+  return parsed;
+}
+
+/**
+ * Validate that an object conforms to the policy schema.
+ * Throws on invalid input.
+ */
+export function validatePolicy(data: unknown, path: string = POLICY_PATH): asserts data is SkillsPolicy {
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    throw new Error(`${path} must be a JSON object`);
+  }
+
+  const obj = data as Record<string, unknown>;
+
+  // A misspelled field would silently allow everything, so reject unknown ones
+  for (const key of Object.keys(obj)) {
+    if (!["allowedSources", "blockedSkills", "requiredFields"].includes(key)) {
+      throw new Error(`${path} has unknown field '${key}'`);
+    }
+  }
+
+  for (const key of ["allowedSources", "blockedSkills"]) {
+    const patterns = obj[key];
+    if (patterns !== undefined && (!Array.isArray(patterns) || patterns.some((p) => typeof p !== "string" || p === ""))) {
+      throw new Error(`${path} has invalid '${key}' — must be a list of patterns`);
+    }
+  }
+
+  const fields = obj.requiredFields;
+  if (fields !== undefined && (!Array.isArray(fields) || fields.some((f) => !POLICY_FIELDS.includes(f)))) {
+    throw new Error(`${path} has invalid 'requiredFields' — must be a list of ${POLICY_FIELDS.map((f) => `"${f}"`).join(", ")}`);
+  }
+}
+
+/**
+ * Whether a string matches a policy pattern. `*` matches anything but "/",
+ * and `**` matches anything; everything else is literal.
+ */
+export function matchesPattern(value: string, pattern: string): boolean {
+  const regex = pattern
+    .split("**")
+    .map((part) => part.split("*").map((literal) => literal.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join("[^/]*"))
+    .join(".*");
+  return new RegExp(`^${regex}$`).test(value);
+}
+
+/**
+ * Whether the policy allows skills from a source (as written to skills.lock).
+ */
+export function isSourceAllowed(policy: SkillsPolicy, source: string): boolean {
+  return !policy.allowedSources || policy.allowedSources.some((pattern) => matchesPattern(source, pattern));
+}
+
+/**
+ * Everything about one locked skill that breaks the policy: a source that
+ * isn't allowed, a blocked name (checked against both the lockfile name
+ * and the upstream directory name, so an alias can't get around a block),
+ * and missing required fields.
+ */
+export function findViolations(policy: SkillsPolicy, name: string, entry: SkillEntry): PolicyViolation[] {
+  const violations: PolicyViolation[] = [];
+
+  const { blockedSkills, requiredFields } = policy;
+  if (!isSourceAllowed(policy, entry.source)) {
+    violations.push({ name, message: `source ${entry.source} is not in the policy's allowedSources` });
+  }
+
+  const names = [...new Set([name, basename(entry.path)])];
+  const blocked = blockedSkills?.find((pattern) => names.some((n) => matchesPattern(n, pattern)));
+  if (blocked) {
+    violations.push({ name, message: `blocked by the policy ('${blocked}')` });
+  }
+
+  for (const field of requiredFields ?? []) {
+    if (entry[field] === undefined) {
+      violations.push({ name, message: `missing required field '${field}'` });
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Check every skill in a lockfile against the policy.
+ */
+export function checkPolicy(policy: SkillsPolicy, lockfile: Lockfile): PolicyViolation[] {
+  return Object.entries(lockfile.skills).flatMap(([name, entry]) => findViolations(policy, name, entry));
+}
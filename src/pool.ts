@@ -0,0 +1,30 @@
+/**
+ * Run `worker` over `items` with at most `concurrency` calls in flight.
+ *
+ * Never rejects: every item gets a settled result (like Promise.allSettled),
+ * so one failing item can't abort the others. Results are in input order
+ * regardless of completion order.
+ */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  async function run(): Promise<void> {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: "fulfilled", value: await worker(items[index], index) };
+      } catch (reason: unknown) {
+        results[index] = { status: "rejected", reason };
+      }
+    }
+  }
+
+  const workers = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: workers }, run));
+  return results;
+}
@@ -0,0 +1,237 @@
+import { writeFile } from "node:fs/promises";
+import { isAbsolute, join } from "node:path";
+import { pathToFileURL } from "node:url";
+import { SKILLS_DIR } from "./installer.js";
+import { LOCKFILE_PATH, shortRef } from "./lockfile.js";
+import type { CheckResult } from "./types.js";
+
+export type ReportFormat = "junit" | "sarif";
+
+export interface ReportSpec {
+  format: ReportFormat;
+  path: string;
+}
+
+/**
+ * One finding from a check: a locked skill that failed, or an extra skill.
+ */
+interface CheckIssue {
+  name: string;
+  kind: "missing" | "wrong-ref" | "modified" | "unverified" | "extra";
+  message: string;
+  /** Target directory the issue was found in, when several are checked */
+  target?: string;
+}
+
+const RULES: Record<CheckIssue["kind"], string> = {
+  "missing": "Skill is in skills.lock but not installed",
+  "wrong-ref": "Installed skill is at a different ref than skills.lock pins",
+  "modified": "Installed skill files don't match the locked integrity hash",
+  "unverified": "Skill was installed outside skills-lock, so its ref can't be verified",
+  "extra": "Skill is installed but not in skills.lock",
+};
+
+/**
+ * Parse a --report value of the form "<format>=<path>".
+ */
+export function parseReportSpec(value: string): ReportSpec {
+  const eq = value.indexOf("=");
+  const format = eq === -1 ? value : value.slice(0, eq);
+  const path = eq === -1 ? "" : value.slice(eq + 1);
+
+  if (format !== "junit" && format !== "sarif") {
+    throw new Error(`Unknown report format '${format}' — expected 'junit' or 'sarif'`);
+  }
+  if (!path) {
+    throw new Error(`Missing report path — use '${format}=<path>'`);
+  }
+  return { format, path };
+}
+
+/**
+ * Flatten a check result into one actionable issue per failing skill.
+ */
+function collectIssues(result: CheckResult): CheckIssue[] {
+  const issues: CheckIssue[] = [];
+
+  const inTarget = (target?: string) => (target ? ` in ${target}` : "");
+
+  for (const { name, target } of result.missing) {
+    issues.push({
+      name,
+      target,
+      kind: "missing",
+      message: `Skill '${name}' is in skills.lock but not installed${inTarget(target)}. Run 'skills-lock install'.`,
+    });
+  }
+  for (const { name, have, want, target } of result.wrongRef) {
+    issues.push({
+      name,
+      target,
+      kind: "wrong-ref",
+      message: `Skill '${name}' is installed${inTarget(target)} at ${shortRef(have)} but skills.lock pins ${shortRef(want)}. Run 'skills-lock install' to fix.`,
+    });
+  }
+  for (const { name, expected, actual, target } of result.modified) {
+    issues.push({
+      name,
+      target,
+      kind: "modified",
+      message: `Files of skill '${name}' were modified on disk${inTarget(target)} (expected ${expected}, found ${actual}). Run 'skills-lock install' to restore.`,
+    });
+  }
+  for (const { name, target } of result.unverified) {
+    issues.push({
+      name,
+      target,
+      kind: "unverified",
+      message: `Skill '${name}' was installed outside skills-lock${inTarget(target)}, so its ref can't be verified. Run 'skills-lock install' to pin it.`,
+    });
+  }
+  for (const { name, target } of result.extra) {
+    issues.push({
+      name,
+      target,
+      kind: "extra",
+      message: `Skill '${name}' is installed${inTarget(target)} but not in skills.lock. Run 'skills-lock remove ${name}', or 'skills-lock add' to pin it.`,
+    });
+  }
+
+  return issues.sort((a, b) => caseName(a).localeCompare(caseName(b)));
+}
+
+/**
+ * Test case name for an issue; includes the target so the same skill
+ * failing in two agent directories yields two distinct cases.
+ */
+function caseName(issue: { name: string; target?: string }): string {
+  return issue.target ? `${issue.name} (${issue.target})` : issue.name;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Render a check result as a JUnit XML report.
+ * Every locked skill (and every extra skill) becomes one test case.
+ */
+export function renderJUnit(result: CheckResult): string {
+  const issues = collectIssues(result);
+  const cases = [
+    ...result.verified.map((name) => ({ name, issue: undefined as CheckIssue | undefined })),
+    ...issues.map((issue) => ({ name: caseName(issue), issue })),
+  ].sort((a, b) => a.name.localeCompare(b.name));
+
+  const lines = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<testsuites name="skills-lock" tests="${cases.length}" failures="${issues.length}">`,
+    `  <testsuite name="skills-lock check" tests="${cases.length}" failures="${issues.length}">`,
+  ];
+  for (const { name, issue } of cases) {
+    if (!issue) {
+      lines.push(`    <testcase classname="skills-lock" name="${escapeXml(name)}"/>`);
+      continue;
+    }
+    lines.push(`    <testcase classname="skills-lock" name="${escapeXml(name)}">`);
+    lines.push(`      <failure type="${issue.kind}" message="${escapeXml(issue.message)}">${escapeXml(RULES[issue.kind])}</failure>`);
+    lines.push(`    </testcase>`);
+  }
+  lines.push(`  </testsuite>`, `</testsuites>`);
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Find the 1-based line in skills.lock where a skill's entry starts,
+ * so code-scanning UIs can annotate it inline. Returns 1 if not found.
+ */
+function lockfileLine(lockfileText: string, name: string): number {
+  // writeLockfile indents skill names by exactly four spaces, which keeps
+  // a skill called e.g. "source" from matching an entry's field instead
+  const key = `    ${JSON.stringify(name)}:`;
+  const index = lockfileText.split("\n").findIndex((line) => line.startsWith(key));
+  return index === -1 ? 1 : index + 1;
+}
+
+/**
+ * SARIF artifact URI for a path: relative to the working directory as-is,
+ * or an absolute file: URI.
+ */
+function artifactUri(path: string): string {
+  return isAbsolute(path) ? pathToFileURL(path).href : path.split("\\").join("/");
+}
+
+/**
+ * Render a check result as a SARIF 2.1.0 log.
+ * Issues with locked skills point at their entry in the lockfile that was
+ * checked (`lockfilePath`, default skills.lock); extra skills point at
+ * their install directory in the target they were found in (`targets`,
+ * default .agents/skills).
+ */
+export function renderSarif(
+  result: CheckResult,
+  options: { version: string; lockfileText: string; lockfilePath?: string; targets?: string[] }
+): string {
+  const issues = collectIssues(result);
+  const lockfileUri = artifactUri(options.lockfilePath ?? LOCKFILE_PATH);
+  // Results only name their target when several were checked
+  const defaultTarget = options.targets?.[0] ?? SKILLS_DIR;
+
+  const sarif = {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: "skills-lock",
+            version: options.version,
+            informationUri: "https://github.com/pcomans/skills-lock",
+            rules: Object.entries(RULES).map(([id, text]) => ({
+              id,
+              shortDescription: { text },
+              defaultConfiguration: { level: "error" },
+            })),
+          },
+        },
+        results: issues.map((issue) => ({
+          ruleId: issue.kind,
+          level: "error",
+          message: { text: issue.message },
+          locations: [
+            {
+              physicalLocation:
+                issue.kind === "extra"
+                  ? { artifactLocation: { uri: artifactUri(join(issue.target ?? defaultTarget, issue.name)) } }
+                  : {
+                      artifactLocation: { uri: lockfileUri },
+                      region: { startLine: lockfileLine(options.lockfileText, issue.name) },
+                    },
+            },
+          ],
+        })),
+      },
+    ],
+  };
+
+  return JSON.stringify(sarif, null, 2) + "\n";
+}
+
+/**
+ * Write every requested report for a check result.
+ */
+export async function writeReports(
+  specs: ReportSpec[],
+  result: CheckResult,
+  options: { version: string; lockfileText: string; lockfilePath?: string; targets?: string[] }
+): Promise<void> {
+  for (const spec of specs) {
+    const content = spec.format === "junit" ? renderJUnit(result) : renderSarif(result, options);
+    await writeFile(spec.path, content, "utf-8");
+  }
+}
@@ -1,8 +1,10 @@
 import { simpleGit } from "simple-git";
-import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { mkdir, mkdtemp, readdir, rm, stat, writeFile } from "node:fs/promises";
 import { tmpdir } from "node:os";
-import { basename, join, relative, sep } from "node:path";
-import type { ResolvedSkill, ResolveOptions } from "./types.js";
+import { basename, isAbsolute, join, relative, resolve, sep } from "node:path";
+import { isArchiveSource, isRemoteArchive, localSourcePath, resolveArchive } from "./archive.js";
+import { ensureCachedFiles, fetchCachedRepo } from "./cache.js";
+import type { ResolvedSkill, ResolveOptions, SkillEntry, SourceKind } from "./types.js";
 
 /**
  * Expand a source to a full Git URL.
@@ -13,6 +15,11 @@ export function expandSource(source: string): string {
     return source;
   }
 
+  // "dist/skill.tgz" is a local archive, not owner/repo
+  if (isArchiveSource(source)) {
+    return source;
+  }
+
   // GitHub shorthand: owner/repo
   if (/^[a-zA-Z0-9_.-]+\/[a-zA-Z0-9_.-]+$/.test(source)) {
     return `https://github.com/${source}.git`;
@@ -22,47 +29,166 @@ export function expandSource(source: string): string {
 }
 
 /**
- * Clone a source repo to a temporary directory.
- * Returns the path to the cloned repo.
+ * What kind of source a skill comes from. Archives are recognised by their
+ * file extension, local directories by the "file:<path>" prefix; anything
+ * else is a git repo, including file:// URLs, which git clones like any
+ * other URL.
+ */
+export function sourceKind(source: string): SourceKind {
+  if (isArchiveSource(source)) return "archive";
+  if (source.startsWith("file:") && !source.startsWith("file://")) return "file";
+  return "git";
+}
+
+/**
+ * Whether a source is a local directory ("file:./internal-skills") that is
+ * used in place instead of being cloned.
+ */
+export function isLocalSource(source: string): boolean {
+  return sourceKind(source) === "file";
+}
+
+/**
+ * Rewrite a local source as typed on the command line (relative to the
+ * current directory) so that it's relative to the scope root, which is what
+ * skills.lock paths are resolved against. Absolute paths, file:// URLs
+ * (git repos, or archives) and remote sources are returned unchanged.
+ */
+export function normalizeLocalSource(source: string, root: string = "."): string {
+  const kind = sourceKind(source);
+  if (kind === "git" || (kind === "archive" && isRemoteArchive(source)) || source.startsWith("file://")) return source;
+
+  const prefix = source.startsWith("file:") ? "file:" : "";
+  const path = source.slice(prefix.length);
+  if (isAbsolute(path)) return source;
+
+  const rel = relative(resolve(root), resolve(path)).split(sep).join("/");
+  return `${prefix}${rel.startsWith("..") ? rel : `./${rel}`}`.replace(/\/$/, "");
+}
+
+/**
+ * Absolute path of a local "file:" source. Relative paths are resolved
+ * against `root` (the scope root), so a lockfile can refer to directories in
+ * the same repo.
+ */
+export async function resolveLocalSource(source: string, root: string = "."): Promise<string> {
+  const path = localSourcePath(source, root);
+  const info = await stat(path).catch(() => null);
+  if (!info?.isDirectory()) {
+    throw new Error(`Local source directory not found: ${source}`);
+  }
+  return path;
+}
+
+/**
+ * SHA of the HEAD commit of the git repo containing a local directory.
+ * Returns undefined when the directory isn't in a git repo (or the repo has
+ * no commits yet).
+ */
+export async function resolveLocalRef(dir: string): Promise<string | undefined> {
+  try {
+    return (await simpleGit(dir).revparse(["HEAD"])).trim();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Populate a `--no-checkout` clone with a commit. With `paths`, only those
+ * directories are written (sparse checkout), so only their files have to be
+ * in the clone cache.
+ */
+async function checkoutPaths(dir: string, ref: string, paths?: string[]): Promise<void> {
+  const git = simpleGit(dir);
+  if (paths) {
+    await git.addConfig("core.sparseCheckout", "true");
+    await mkdir(join(dir, ".git", "info"), { recursive: true });
+    const patterns = paths.map((path) => (path === "." ? "/*" : `/${path}/`));
+    await writeFile(join(dir, ".git", "info", "sparse-checkout"), patterns.join("\n") + "\n", "utf-8");
+  }
+  // Unlike `git checkout`, read-tree never looks at files outside the sparse paths
+  await git.raw(["read-tree", "-mu", ref]);
+  if (ref !== "HEAD") {
+    await git.raw(["update-ref", "--no-deref", "HEAD", ref]);
+  }
+}
+
+/**
+ * Check out a source repo to a temporary directory.
+ * Fetches the latest commits into the local clone cache first, then clones
+ * from the cache. Returns the path to the checkout.
  */
 export async function resolveRepo(
   source: string,
   options?: ResolveOptions
 ): Promise<string> {
   const url = expandSource(source);
+  const cachedDir = await fetchCachedRepo(url);
   const dir = await mkdtemp(join(tmpdir(), "skills-lock-"));
   const git = simpleGit();
 
-  const cloneArgs = ["--depth", "1"];
+  const cloneArgs = ["--shared", "--no-checkout"];
   if (options?.ref) {
     cloneArgs.push("--branch", options.ref);
   }
 
-  await git.clone(url, dir, cloneArgs);
+  try {
+    await git.clone(cachedDir, dir, cloneArgs);
+    const head = (await simpleGit(dir).revparse(["HEAD"])).trim();
+    await ensureCachedFiles(url, head, options?.paths);
+    await checkoutPaths(dir, "HEAD", options?.paths);
+  } catch (err) {
+    await rm(dir, { recursive: true, force: true });
+    throw err;
+  }
   return dir;
 }
 
 /**
- * Clone a source repo at a specific commit SHA.
- * Unlike resolveRepo, this does a full clone to ensure the SHA is reachable,
- * then checks out the exact commit.
+ * Check out a source repo at a specific commit SHA.
+ * Only fetches from the remote when the clone cache doesn't already
+ * contain the commit (never, with `offline`), then checks out the exact commit.
  */
 export async function cloneAtRef(
   source: string,
-  ref: string
+  ref: string,
+  options?: ResolveOptions
 ): Promise<string> {
   const url = expandSource(source);
+  const cachedDir = await ensureCachedFiles(url, ref, options?.paths, { offline: options?.offline });
   const dir = await mkdtemp(join(tmpdir(), "skills-lock-"));
   const git = simpleGit();
 
-  await git.clone(url, dir);
-  const repoGit = simpleGit(dir);
-  await repoGit.checkout(ref);
+  try {
+    await git.clone(cachedDir, dir, ["--shared", "--no-checkout"]);
+    await checkoutPaths(dir, ref, options?.paths);
+  } catch (err) {
+    await rm(dir, { recursive: true, force: true });
+    throw err;
+  }
   return dir;
 }
 
 /**
- * Remove a temporary clone directory.
+ * Get a directory to install a locked skill from: a checkout of its pinned
+ * commit, the extracted archive (verified against its pinned hash), or a
+ * local source's directory itself. Clean up with `cleanupClone()` unless
+ * the source is local.
+ */
+export async function checkoutEntry(entry: SkillEntry, options?: ResolveOptions): Promise<string> {
+  switch (sourceKind(entry.source)) {
+    case "file":
+      return resolveLocalSource(entry.source, options?.root);
+    case "archive":
+      return (await resolveArchive(entry.source, entry.archive, options?.root)).dir;
+    case "git":
+      // validateLockfile() guarantees git sources have a ref
+      return cloneAtRef(entry.source, entry.ref!, options);
+  }
+}
+
+/**
+ * Remove a temporary checkout directory. The clone cache is left intact.
  */
 export async function cleanupClone(dir: string): Promise<void> {
   await rm(dir, { recursive: true, force: true });
@@ -82,11 +208,43 @@ export async function resolveRef(repoDir: string): Promise<string> {
   return log.latest.hash;
 }
 
+/**
+ * SHA of the most recent commit, at or before `ref`, that changed anything
+ * under `path`. Pinning a skill to it rather than to the branch tip keeps
+ * commits elsewhere in the repo from moving the skill's ref.
+ */
+export async function resolvePathRef(repoDir: string, path: string, ref = "HEAD"): Promise<string> {
+  const args = ["rev-list", "-1", ref, ...(path === "." ? [] : ["--", path])];
+  const sha = (await simpleGit(repoDir).raw(args)).trim();
+  if (!sha) {
+    throw new Error(`No commits touch ${path} in ${repoDir}`);
+  }
+  return sha;
+}
+
+/**
+ * Whether `path` is byte-identical at two commits, i.e. has the same git
+ * tree. Only trees are read, so it works in a partial clone. False when
+ * either commit doesn't have the path (or isn't available).
+ */
+export async function isPathUnchanged(repoDir: string, path: string, refA: string, refB: string): Promise<boolean> {
+  const tree = async (ref: string) => {
+    try {
+      const spec = path === "." ? `${ref}^{tree}` : `${ref}:${path}`;
+      return (await simpleGit(repoDir).revparse(["--verify", "--quiet", spec])).trim();
+    } catch {
+      return undefined;
+    }
+  };
+  const [a, b] = await Promise.all([tree(refA), tree(refB)]);
+  return a !== undefined && a === b;
+}
+
 /**
  * Recursively find all SKILL.md files under a directory.
  * Returns paths relative to the base directory.
  */
-async function findSkillMdFiles(
+export async function findSkillMdFiles(
   dir: string,
   base: string = dir
 ): Promise<string[]> {
@@ -109,14 +267,17 @@ async function findSkillMdFiles(
 }
 
 /**
- * Find all skill directories (containing SKILL.md) in a repo.
+ * Find all skill directories (containing SKILL.md) in a repo, in the
+ * directory of a local "file:" source, or in an extracted archive.
  */
 export async function findSkills(
   repoDir: string,
   source: string
 ): Promise<ResolvedSkill[]> {
   const skillPaths = await findSkillMdFiles(repoDir);
-  const ref = await resolveRef(repoDir);
+  const kind = sourceKind(source);
+  const ref =
+    kind === "file" ? await resolveLocalRef(repoDir) : kind === "archive" ? undefined : await resolveRef(repoDir);
 
   return skillPaths.map((path) => {
     const name = basename(path);
@@ -1,50 +1,54 @@
 import { readdir, access, stat } from "node:fs/promises";
-import { resolve } from "node:path";
+import { basename, resolve } from "node:path";
 import type { InstalledSkill } from "./types.js";
-import { readSkillMetadata } from "./installer.js";
-
-const SKILLS_DIR = ".agents/skills";
+import { readSkillMetadata, SKILLS_DIR } from "./installer.js";
 
 /**
- * Scan the canonical .agents/skills/ directory for installed skills.
- * A skill is a directory (or symlink to a directory) containing a SKILL.md file.
+ * Scan a skills directory (the canonical .agents/skills/ by default) for
+ * installed skills. A skill is a directory (or symlink to a directory),
+ * usually containing a SKILL.md file.
  */
-export async function scanInstalledSkills(): Promise<InstalledSkill[]> {
+export async function scanInstalledSkills(dir: string = SKILLS_DIR): Promise<InstalledSkill[]> {
   try {
-    await access(SKILLS_DIR);
+    await access(dir);
   } catch {
     return [];
   }
 
-  const entries = await readdir(SKILLS_DIR);
+  const entries = await readdir(dir);
   const skills: InstalledSkill[] = [];
 
   for (const name of entries) {
-    const diskPath = resolve(SKILLS_DIR, name);
-
-    // Follow symlinks — stat() resolves them, unlike lstat()
-    let isDir = false;
-    try {
-      const s = await stat(diskPath);
-      isDir = s.isDirectory();
-    } catch {
-      continue;
-    }
-
-    if (!isDir) continue;
-
-    let hasSkillMd = false;
-    try {
-      await access(resolve(diskPath, "SKILL.md"));
-      hasSkillMd = true;
-    } catch {
-      // No SKILL.md — still count it as installed
-    }
-
-    const metadata = await readSkillMetadata(diskPath) ?? undefined;
-
-    skills.push({ name, diskPath, hasSkillMd, metadata });
+    const skill = await readInstalledSkill(resolve(dir, name));
+    if (skill) skills.push(skill);
   }
 
   return skills;
 }
+
+/**
+ * Inspect a single installed skill directory.
+ * Returns null if nothing (or no directory) is installed there.
+ */
+export async function readInstalledSkill(skillDir: string): Promise<InstalledSkill | null> {
+  const diskPath = resolve(skillDir);
+
+  // Follow symlinks — stat() resolves them, unlike lstat()
+  try {
+    if (!(await stat(diskPath)).isDirectory()) return null;
+  } catch {
+    return null;
+  }
+
+  let hasSkillMd = false;
+  try {
+    await access(resolve(diskPath, "SKILL.md"));
+    hasSkillMd = true;
+  } catch {
+    // No SKILL.md — still count it as installed
+  }
+
+  const metadata = await readSkillMetadata(diskPath) ?? undefined;
+
+  return { name: basename(diskPath), diskPath, hasSkillMd, metadata };
+}
@@ -0,0 +1,52 @@
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { LOCKFILE_PATH } from "./lockfile.js";
+import { CONFIG_PATH } from "./config.js";
+import { POLICY_PATH } from "./policy.js";
+import type { Scope } from "./types.js";
+
+/**
+ * Directory for user-level skills-lock files (the global lockfile and config).
+ * Honors SKILLS_LOCK_CONFIG_DIR, otherwise uses the platform's user config dir.
+ */
+export function getConfigDir(): string {
+  if (process.env.SKILLS_LOCK_CONFIG_DIR) {
+    return process.env.SKILLS_LOCK_CONFIG_DIR;
+  }
+  if (process.platform === "darwin") {
+    return join(homedir(), "Library", "Application Support", "skills-lock");
+  }
+  if (process.platform === "win32") {
+    return join(process.env.APPDATA ?? join(homedir(), "AppData", "Roaming"), "skills-lock");
+  }
+  return join(process.env.XDG_CONFIG_HOME ?? join(homedir(), ".config"), "skills-lock");
+}
+
+/**
+ * The project scope: skills.lock, config, policy and skill directories relative to
+ * the current directory.
+ */
+export function projectScope(): Scope {
+  return {
+    global: false,
+    root: ".",
+    lockfilePath: LOCKFILE_PATH,
+    configPath: CONFIG_PATH,
+    policyPath: POLICY_PATH,
+  };
+}
+
+/**
+ * The user scope: skill directories under the home directory (e.g.
+ * ~/.agents/skills), with the lockfile, config and policy in the user config dir.
+ */
+export function globalScope(): Scope {
+  const configDir = getConfigDir();
+  return {
+    global: true,
+    root: homedir(),
+    lockfilePath: join(configDir, LOCKFILE_PATH),
+    configPath: join(configDir, CONFIG_PATH),
+    policyPath: join(configDir, POLICY_PATH),
+  };
+}
@@ -0,0 +1,86 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { execa } from "execa";
+import type { SignatureTrust, SkillEntry } from "./types.js";
+
+/**
+ * Why git's %G? status rejects a signature, for every status but "G" (a
+ * good signature from a trusted key).
+ */
+const REJECTED: Record<string, string> = {
+  N: "is not signed",
+  B: "has a bad signature",
+  U: "is not signed by a trusted key",
+  E: "is not signed by a trusted key",
+  X: "has an expired signature",
+  Y: "is signed by an expired key",
+  R: "is signed by a revoked key",
+};
+
+/**
+ * Why a skill can't be verified when signatures are required: `subject`
+ * (a skill name or a source) has no commit that could be signed.
+ */
+export function noCommitToVerify(subject: string): string {
+  return `${subject} has no commit to verify; archives and local directories outside git can't be signed`;
+}
+
+/**
+ * Check that a commit has a good GPG or SSH signature from one of the
+ * trusted keys, and return the signing key's fingerprint. Only the keys in
+ * `trust` count: git runs against a throwaway GnuPG home, never the user's
+ * own keyring.
+ */
+export async function verifyCommitSignature(repoDir: string, ref: string, trust: SignatureTrust): Promise<string> {
+  const gnupgHome = await mkdtemp(join(tmpdir(), "skills-lock-gnupg-"));
+  try {
+    // Being in the keyring is what makes a key trusted here
+    await writeFile(join(gnupgHome, "gpg.conf"), "trust-model always\n");
+    const env = { GNUPGHOME: gnupgHome };
+    if (trust.keyring) {
+      await execa("gpg", ["--batch", "--quiet", "--no-autostart", "--import", trust.keyring], { env });
+    }
+
+    // git needs an allowed-signers file to check SSH signatures at all
+    const allowedSigners = trust.allowedSigners ?? join(gnupgHome, "allowed_signers");
+    if (!trust.allowedSigners) await writeFile(allowedSigners, "");
+
+    const { stdout } = await execa(
+      "git",
+      ["-c", `gpg.ssh.allowedSignersFile=${allowedSigners}`, "log", "-1", "--format=%G?%n%GF", ref],
+      { cwd: repoDir, env }
+    );
+    const [status, fingerprint] = stdout.split("\n");
+    if (status === "G" && fingerprint) return fingerprint;
+    throw new Error(`Commit ${ref.slice(0, 7)} ${REJECTED[status] ?? "has a signature that can't be checked"}`);
+  } finally {
+    await rm(gnupgHome, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Verify the commit a locked skill is pinned to, and that it was signed by
+ * the key skills.lock recorded for it.
+ */
+export async function verifyPinnedSigner(
+  repoDir: string,
+  name: string,
+  entry: SkillEntry,
+  trust: SignatureTrust
+): Promise<void> {
+  if (!entry.ref) {
+    throw new Error(noCommitToVerify(`'${name}'`));
+  }
+  if (!entry.signer) {
+    throw new Error(
+      `skills.lock records no signer for '${name}'. ` +
+      `Run 'skills-lock add ${entry.source} --path ${entry.path} --as ${name} --force' to verify and record one.`
+    );
+  }
+
+  const signer = await verifyCommitSignature(repoDir, entry.ref, trust);
+  if (signer !== entry.signer) {
+    throw new Error(`Commit ${entry.ref.slice(0, 7)} of '${name}' is signed by ${signer}, but skills.lock expects ${entry.signer}`);
+  }
+}
@@ -2,21 +2,71 @@
  * A single skill entry in the lockfile.
  */
 export interface SkillEntry {
-  /** Fully resolved Git URL (e.g. "https://github.com/anthropics/skills.git") */
+  /**
+   * Fully resolved Git URL (e.g. "https://github.com/anthropics/skills.git"),
+   * a local "file:" directory, or the URL or path of a release archive
+   */
   source: string;
   /** Path within the repo to the skill directory (contains SKILL.md) */
   path: string;
-  /** Full 40-character commit SHA */
-  ref: string;
+  /**
+   * Full 40-character commit SHA. Omitted for archive sources and for a
+   * "file:" source outside a git repo, which is pinned by `integrity` alone.
+   */
+  ref?: string;
+  /** SHA-256 of the downloaded archive, for archive sources (e.g. "sha256:abc123...") */
+  archive?: string;
   /** SHA-256 hash of the skill directory contents at the pinned ref (e.g. "sha256:abc123...") */
   integrity?: string;
+  /** Branch or tag that `update` follows. Defaults to the remote's default branch. */
+  track?: string;
+  /** Free-form note about why the skill is pinned (lockfile version 2 and later) */
+  notes?: string;
+  /** Free-form string metadata about where the skill came from (lockfile version 2 and later) */
+  provenance?: Record<string, string>;
+  /**
+   * Skills in the lockfile whose SKILL.md lists this one under `dependencies`
+   * (lockfile version 2 and later). `remove` refuses while any remain.
+   */
+  requiredBy?: string[];
+  /**
+   * Fingerprint of the key that signed `ref` (lockfile version 2 and later).
+   * Recorded when `verifySignatures` is on; `install` then refuses the
+   * commit unless it still carries a trusted signature from this key.
+   */
+  signer?: string;
+}
+
+/**
+ * A skill listed under `dependencies` in another skill's SKILL.md: a bare
+ * skill name in the same source, or a mapping that can name another source
+ * and pick the skill by `path` like `add --path`.
+ */
+export interface SkillDependency {
+  /** Source to add the skill from. Defaults to the dependent skill's source. */
+  source?: string;
+  /** Skill name (its directory name) */
+  skill?: string;
+  /** Path of the skill directory within the source */
+  path?: string;
 }
 
+/**
+ * Where a skill comes from: a git repo, a local directory ("file:"), or a
+ * release archive (.tgz, .tar.gz, .tar or .zip).
+ */
+export type SourceKind = "git" | "file" | "archive";
+
+/**
+ * Lockfile schema versions this CLI can read and write.
+ */
+export type LockfileVersion = 1 | 2;
+
 /**
  * The skills.lock file schema.
  */
 export interface Lockfile {
-  version: 1;
+  version: LockfileVersion;
   skills: Record<string, SkillEntry>;
 }
 
@@ -30,20 +80,144 @@ export interface ResolvedSkill {
   source: string;
   /** Path within the repo */
   path: string;
-  /** Current commit SHA */
-  ref: string;
+  /** Current commit SHA (absent for archives and "file:" sources outside a git repo) */
+  ref?: string;
 }
 
 /**
  * Metadata stored alongside an installed skill in .skills-lock.
  */
 export interface SkillMetadata {
-  /** Commit SHA the skill was installed from */
-  ref: string;
+  /** Commit SHA the skill was installed from (absent for archives and "file:" sources outside a git repo) */
+  ref?: string;
   /** SHA-256 hash of the skill directory at install time */
   integrity: string;
 }
 
+/**
+ * How skills are put on disk: by shelling out to `npx skills`, or by
+ * copying them directly ("native").
+ */
+export type InstallerKind = "native" | "skills-cli";
+
+/**
+ * Where a command operates: the current project, or the user's global skills.
+ */
+export interface Scope {
+  /** Whether this is the user (--global) scope */
+  global: boolean;
+  /** Directory skill directories like .agents/skills are relative to */
+  root: string;
+  /** Path to the scope's lockfile */
+  lockfilePath: string;
+  /** Path to the scope's skills-lock.config.json */
+  configPath: string;
+  /** Path to the scope's skills-policy.json */
+  policyPath: string;
+}
+
+/**
+ * Options passed to every Installer call.
+ */
+export interface InstallOptions {
+  /** Capture the installer's output instead of streaming it */
+  quiet?: boolean;
+  /** Install into the user's global skill directories instead of the project's */
+  global?: boolean;
+}
+
+/**
+ * A strategy for putting skills on disk and taking them off again.
+ * Implement this to plug a custom install step into skills-lock.
+ */
+export interface Installer {
+  /** Short name for messages, e.g. "native" */
+  name: string;
+  /** Verify the installer can run, before anything is changed. Optional. */
+  check?(): Promise<void>;
+  /**
+   * Install a skill. `source` is the skill's own directory in a local
+   * checkout, or the checkout root when the skill's path isn't pinned.
+   */
+  install(source: string, skillName: string, options?: InstallOptions): Promise<void>;
+  /** Remove an installed skill. */
+  remove(skillName: string, options?: InstallOptions): Promise<void>;
+  /** Directory an installed skill lives in; used for integrity hashing and metadata. */
+  locate(skillName: string, options?: { global?: boolean }): string;
+}
+
+/**
+ * Installer setting in the config file: a built-in installer, command
+ * templates with `{source}` and `{name}` placeholders, or a module whose
+ * default export implements Installer.
+ */
+export type InstallerConfig =
+  | InstallerKind
+  | { install: string; remove: string; dir?: string }
+  | { module: string };
+
+/**
+ * Keys trusted to sign the commits skills are pinned to. Paths are relative
+ * to the config file, so the keys can be committed next to it.
+ */
+export interface SignatureTrust {
+  /** SSH allowed-signers file, in the format `ssh-keygen -Y verify` reads */
+  allowedSigners?: string;
+  /** GPG public keyring, binary or ASCII-armored (e.g. from `gpg --export`) */
+  keyring?: string;
+}
+
+/**
+ * The skills-lock.config.json file schema.
+ */
+export interface SkillsLockConfig {
+  /** How skills are put on disk. Defaults to "skills-cli". */
+  installer?: InstallerConfig;
+  /**
+   * Skill directories of every agent in use (e.g. ".claude/skills").
+   * `install` links each skill into all of them and `check` verifies each one.
+   * Relative to the project, or to the home directory with --global.
+   * Defaults to [".agents/skills"].
+   */
+  targets?: string[];
+  /**
+   * Require every pinned commit to carry a valid signature from one of these
+   * keys. `add`, `update` and `install` refuse unsigned commits.
+   */
+  verifySignatures?: SignatureTrust;
+}
+
+/**
+ * Entry fields a policy can require every locked skill to have.
+ */
+export type PolicyField = "ref" | "integrity" | "track";
+
+/**
+ * The skills-policy.json file schema: which skills a project may use.
+ * Patterns match whole strings, with `*` standing for anything but "/" and
+ * `**` for anything at all.
+ */
+export interface SkillsPolicy {
+  /**
+   * Source URL patterns skills may come from, matched against the source
+   * as written to skills.lock (e.g. "https://github.com/acme/*").
+   * Any source is allowed when omitted.
+   */
+  allowedSources?: string[];
+  /** Skill name patterns that may not be used, by lockfile or upstream name */
+  blockedSkills?: string[];
+  /** Fields every skill in skills.lock must have */
+  requiredFields?: PolicyField[];
+}
+
+/**
+ * A locked skill that breaks the policy.
+ */
+export interface PolicyViolation {
+  name: string;
+  message: string;
+}
+
 /**
  * A skill found on disk by the scanner.
  */
@@ -67,6 +241,111 @@ export interface LockfileDiff {
   changed: string[];
 }
 
+/**
+ * Result of a three-way merge of lockfiles.
+ */
+export interface LockfileMergeResult {
+  /** Merged lockfile; conflicting skills keep our side's entry */
+  merged: Lockfile;
+  /** Skills changed differently on both sides. A missing side means the skill was absent (e.g. removed) there. */
+  conflicts: { name: string; base?: SkillEntry; ours?: SkillEntry; theirs?: SkillEntry }[];
+}
+
+/**
+ * Result of comparing installed skills against a lockfile.
+ * Within a target directory, every locked skill lands in exactly one of
+ * verified / missing / wrongRef / modified / unverified; extra holds
+ * installed skills that aren't locked.
+ *
+ * When more than one target directory is checked, problems carry the
+ * `target` they were found in, and a skill is only verified if it is
+ * correct in every target.
+ */
+export interface CheckResult {
+  /** Installed at the locked ref with matching integrity */
+  verified: string[];
+  /** In the lockfile but not installed */
+  missing: { name: string; ref?: string; target?: string }[];
+  /** Installed at a different ref than the lockfile pins */
+  wrongRef: { name: string; have?: string; want?: string; target?: string }[];
+  /** Installed at the locked ref, but files on disk don't match the locked integrity */
+  modified: { name: string; ref?: string; expected: string; actual: string; target?: string }[];
+  /** Installed without skills-lock metadata, so the ref can't be verified */
+  unverified: { name: string; ref?: string; target?: string }[];
+  /** Installed but not in the lockfile */
+  extra: { name: string; ref?: string; target?: string }[];
+}
+
+/**
+ * A problem `lint` found in a skill's SKILL.md.
+ */
+export interface LintIssue {
+  /** Errors break the Agent Skills spec; warnings are worth fixing but don't */
+  severity: "error" | "warning";
+  message: string;
+}
+
+/**
+ * What changed in a skill between two commits of its source.
+ */
+export interface SkillChangelog {
+  /** Commits that touched the skill's path, newest first */
+  commits: { sha: string; subject: string }[];
+  /**
+   * Files changed in the skill directory (relative to it) with added and
+   * deleted line counts. Counts are omitted for binary files.
+   */
+  files: { path: string; additions?: number; deletions?: number }[];
+}
+
+/**
+ * A locked skill whose source has a newer version than the one pinned.
+ */
+export interface OutdatedSkill {
+  name: string;
+  source: string;
+  /** Path within the source */
+  path: string;
+  kind: SourceKind;
+  /** Pinned commit SHA (for archive sources, the pinned archive hash) */
+  current?: string;
+  /** Latest commit SHA (for archive sources, the archive's current hash) */
+  latest?: string;
+  /** ISO commit date of `current` (git sources) */
+  currentDate?: string;
+  /** ISO commit date of `latest` (git sources) */
+  latestDate?: string;
+  /** Commits after `current` up to `latest` that touched `path` (git sources) */
+  commits?: number;
+}
+
+/**
+ * Result of comparing locked skills against the latest versions of their
+ * sources, as `update` would resolve them.
+ */
+export interface OutdatedResult {
+  /** Skills with a newer version available */
+  outdated: OutdatedSkill[];
+  /** Skills already at the latest version */
+  upToDate: string[];
+  /** Skills whose source couldn't be resolved */
+  failed: { name: string; error: string }[];
+}
+
+/**
+ * A source repository in the local clone cache.
+ */
+export interface CachedRepo {
+  /** Cache key (hash of the normalized source URL) */
+  key: string;
+  /** Source URL the entry was cloned from */
+  source: string;
+  /** Absolute path to the cached bare repository */
+  dir: string;
+  /** ISO timestamp of the last clone or fetch, if known */
+  fetchedAt?: string;
+}
+
 /**
  * Options for the resolver.
  */
@@ -75,4 +354,13 @@ export interface ResolveOptions {
   ref?: string;
   /** Specific skill path within the repo */
   skillPath?: string;
+  /**
+   * Only check out these paths within the repo (sparse checkout), so only
+   * their files are downloaded. Defaults to the whole repo.
+   */
+  paths?: string[];
+  /** Only use the local clone cache; fail instead of contacting the remote. */
+  offline?: boolean;
+  /** Directory relative local sources are resolved against. Defaults to the current directory. */
+  root?: string;
 }
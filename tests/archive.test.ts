@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { createServer, type Server } from "node:http";
+import { mkdtemp, mkdir, writeFile, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { execa } from "execa";
+import { isArchiveSource, hashArchive, resolveArchive } from "../src/archive.js";
+import { findSkills } from "../src/resolver.js";
+
+let tmpDir: string;
+let extracted: string[];
+
+/**
+ * Serve files from a directory over HTTP on a random local port.
+ */
+async function serve(dir: string): Promise<{ server: Server; url: string }> {
+  const server = createServer(async (req, res) => {
+    try {
+      res.end(await readFile(join(dir, req.url ?? "/")));
+    } catch {
+      res.statusCode = 404;
+      res.end();
+    }
+  });
+  await new Promise<void>((done) => server.listen(0, "127.0.0.1", done));
+  const address = server.address() as { port: number };
+  return { server, url: `http://127.0.0.1:${address.port}` };
+}
+
+beforeEach(async () => {
+  tmpDir = await mkdtemp(join(tmpdir(), "skills-lock-archive-test-"));
+  extracted = [];
+  await mkdir(join(tmpDir, "src", "foo-1.0", "foo"), { recursive: true });
+  await writeFile(join(tmpDir, "src", "foo-1.0", "foo", "SKILL.md"), "# foo\n");
+  await execa("tar", ["-czf", join(tmpDir, "foo.tgz"), "-C", join(tmpDir, "src"), "foo-1.0"]);
+});
+
+afterEach(async () => {
+  for (const dir of extracted) await rm(dir, { recursive: true, force: true });
+  await rm(tmpDir, { recursive: true, force: true });
+});
+
+describe("isArchiveSource", () => {
+  it("recognizes archive extensions on URLs and paths", () => {
+    expect(isArchiveSource("https://host/releases/skill.tgz")).toBe(true);
+    expect(isArchiveSource("https://host/skill.tar.gz?token=abc")).toBe(true);
+    expect(isArchiveSource("./dist/skill.zip")).toBe(true);
+    expect(isArchiveSource("dist/skill.tar")).toBe(true);
+  });
+
+  it("does not treat git sources as archives", () => {
+    expect(isArchiveSource("anthropics/skills")).toBe(false);
+    expect(isArchiveSource("https://github.com/anthropics/skills.git")).toBe(false);
+    expect(isArchiveSource("file:./internal-skills")).toBe(false);
+  });
+});
+
+describe("resolveArchive", () => {
+  it("extracts a local archive and hashes it", async () => {
+    const { dir, archive } = await resolveArchive(join(tmpDir, "foo.tgz"));
+    extracted.push(dir);
+
+    expect(archive).toBe(hashArchive(await readFile(join(tmpDir, "foo.tgz"))));
+    expect(await readFile(join(dir, "foo-1.0", "foo", "SKILL.md"), "utf-8")).toBe("# foo\n");
+    const skills = await findSkills(dir, join(tmpDir, "foo.tgz"));
+    expect(skills).toEqual([{ name: "foo", source: join(tmpDir, "foo.tgz"), path: "foo-1.0/foo", ref: undefined }]);
+  });
+
+  it("extracts zip archives", async () => {
+    await execa("zip", ["-qr", join(tmpDir, "foo.zip"), "foo-1.0"], { cwd: join(tmpDir, "src") });
+
+    const { dir } = await resolveArchive(join(tmpDir, "foo.zip"));
+    extracted.push(dir);
+    expect(await readFile(join(dir, "foo-1.0", "foo", "SKILL.md"), "utf-8")).toBe("# foo\n");
+  });
+
+  it("downloads an archive over HTTP", async () => {
+    const { server, url } = await serve(tmpDir);
+    try {
+      const { dir, archive } = await resolveArchive(`${url}/foo.tgz`);
+      extracted.push(dir);
+      expect(archive).toMatch(/^sha256:[0-9a-f]{64}$/);
+      expect(await readFile(join(dir, "foo-1.0", "foo", "SKILL.md"), "utf-8")).toBe("# foo\n");
+
+      await expect(resolveArchive(`${url}/missing.tgz`)).rejects.toThrow("HTTP 404");
+    } finally {
+      server.close();
+    }
+  });
+
+  it("rejects an archive that doesn't match the pinned hash", async () => {
+    const pinned = `sha256:${"0".repeat(64)}`;
+    await expect(resolveArchive(join(tmpDir, "foo.tgz"), pinned)).rejects.toThrow(
+      `Archive hash mismatch for ${join(tmpDir, "foo.tgz")}: skills.lock pins ${pinned}`
+    );
+  });
+
+  it("fails clearly on a missing or corrupt archive", async () => {
+    await expect(resolveArchive(join(tmpDir, "missing.tgz"))).rejects.toThrow("Archive not found");
+
+    await writeFile(join(tmpDir, "corrupt.tgz"), "not an archive");
+    await expect(resolveArchive(join(tmpDir, "corrupt.tgz"))).rejects.toThrow("Failed to extract archive with tar");
+  });
+});
@@ -0,0 +1,325 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, mkdir, writeFile, rm, access } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import { simpleGit } from "simple-git";
+import {
+  normalizeSourceUrl,
+  cacheKey,
+  cachedRepoPath,
+  fetchCachedRepo,
+  ensureCachedCommit,
+  hasCachedCommit,
+  listCachedRepos,
+  verifyCachedRepo,
+  cleanCache,
+  importBundle,
+  exportBundle,
+  isCommitCached,
+  ensureCachedFiles,
+} from "../src/cache.js";
+import { cloneAtRef, cleanupClone, resolveRef, resolveRepo } from "../src/resolver.js";
+
+async function createSourceRepo(dir: string): Promise<string> {
+  await mkdir(dir, { recursive: true });
+  const git = simpleGit(dir);
+  await git.init();
+  await git.addConfig("user.email", "test@test.com");
+  await git.addConfig("user.name", "Test");
+  await mkdir(join(dir, "pdf"), { recursive: true });
+  await writeFile(join(dir, "pdf", "SKILL.md"), "# PDF\n");
+  await git.add(".");
+  await git.commit("initial commit");
+  return (await git.revparse(["HEAD"])).trim();
+}
+
+async function commitFile(dir: string, name: string): Promise<string> {
+  const git = simpleGit(dir);
+  await writeFile(join(dir, name), `${name}\n`);
+  await git.add(name);
+  await git.commit(`add ${name}`);
+  return (await git.revparse(["HEAD"])).trim();
+}
+
+describe("normalizeSourceUrl", () => {
+  it("strips .git and trailing slashes", () => {
+    expect(normalizeSourceUrl("https://github.com/anthropics/skills.git")).toBe(
+      "https://github.com/anthropics/skills"
+    );
+    expect(normalizeSourceUrl("https://github.com/anthropics/skills/")).toBe(
+      "https://github.com/anthropics/skills"
+    );
+  });
+
+  it("lowercases the scheme and host but not the path", () => {
+    expect(normalizeSourceUrl("HTTPS://GitHub.com/Acme/Skills")).toBe(
+      "https://github.com/Acme/Skills"
+    );
+  });
+
+  it("lowercases the host of scp-style SSH URLs", () => {
+    expect(normalizeSourceUrl("git@GitHub.com:acme/skills.git")).toBe("git@github.com:acme/skills");
+  });
+
+  it("resolves local paths to absolute paths", () => {
+    expect(normalizeSourceUrl("./some/repo")).toBe(resolve("some/repo"));
+  });
+
+  it("gives equivalent spellings the same cache key", () => {
+    expect(cacheKey("https://github.com/anthropics/skills.git")).toBe(
+      cacheKey("https://GITHUB.com/anthropics/skills")
+    );
+    expect(cacheKey("https://github.com/anthropics/skills.git")).not.toBe(
+      cacheKey("https://github.com/anthropics/other.git")
+    );
+  });
+});
+
+describe("clone cache", () => {
+  let tmpDir: string;
+  let sourceDir: string;
+  let initialSha: string;
+  const originalCacheDir = process.env.SKILLS_LOCK_CACHE_DIR;
+
+  beforeEach(async () => {
+    tmpDir = await mkdtemp(join(tmpdir(), "skills-lock-cache-test-"));
+    process.env.SKILLS_LOCK_CACHE_DIR = join(tmpDir, "cache");
+    sourceDir = join(tmpDir, "source");
+    initialSha = await createSourceRepo(sourceDir);
+  });
+
+  afterEach(async () => {
+    if (originalCacheDir === undefined) {
+      delete process.env.SKILLS_LOCK_CACHE_DIR;
+    } else {
+      process.env.SKILLS_LOCK_CACHE_DIR = originalCacheDir;
+    }
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it("clones a source into the cache directory", async () => {
+    const repoDir = await fetchCachedRepo(sourceDir);
+
+    expect(repoDir).toBe(cachedRepoPath(sourceDir));
+    expect(repoDir.startsWith(join(tmpDir, "cache"))).toBe(true);
+    expect(await hasCachedCommit(repoDir, initialSha)).toBe(true);
+  });
+
+  it("fetches new commits incrementally on subsequent calls", async () => {
+    const repoDir = await fetchCachedRepo(sourceDir);
+    const newSha = await commitFile(sourceDir, "second.txt");
+    expect(await hasCachedCommit(repoDir, newSha)).toBe(false);
+
+    await fetchCachedRepo(sourceDir);
+    expect(await hasCachedCommit(repoDir, newSha)).toBe(true);
+  });
+
+  it("shares one fetch between concurrent callers for the same source", async () => {
+    const [a, b] = await Promise.all([fetchCachedRepo(sourceDir), fetchCachedRepo(sourceDir)]);
+    expect(a).toBe(b);
+    expect(await listCachedRepos()).toHaveLength(1);
+  });
+
+  it("serves a cached commit without contacting the source", async () => {
+    await ensureCachedCommit(sourceDir, initialSha);
+    // Remove the source entirely — a network fetch would now fail
+    await rm(sourceDir, { recursive: true, force: true });
+
+    const checkout = await cloneAtRef(sourceDir, initialSha);
+    try {
+      expect(await resolveRef(checkout)).toBe(initialSha);
+      await access(join(checkout, "pdf", "SKILL.md"));
+    } finally {
+      await cleanupClone(checkout);
+    }
+  });
+
+  it("refuses to fetch a missing commit in offline mode", async () => {
+    await expect(ensureCachedCommit(sourceDir, initialSha, { offline: true })).rejects.toThrow(
+      "not in the local cache (offline mode)"
+    );
+    expect(await listCachedRepos()).toEqual([]);
+  });
+
+  it("round-trips a cached source through a bundle for offline use", async () => {
+    const bundlePath = join(tmpDir, "source.bundle");
+    await fetchCachedRepo(sourceDir);
+    await exportBundle(sourceDir, bundlePath);
+    await cleanCache();
+    await rm(sourceDir, { recursive: true, force: true });
+
+    await importBundle(bundlePath, sourceDir);
+    expect(await isCommitCached(sourceDir, initialSha)).toBe(true);
+
+    const checkout = await cloneAtRef(sourceDir, initialSha, { offline: true });
+    try {
+      await access(join(checkout, "pdf", "SKILL.md"));
+    } finally {
+      await cleanupClone(checkout);
+    }
+  });
+
+  it("imports a bundle into an existing cache entry", async () => {
+    await fetchCachedRepo(sourceDir);
+    const otherDir = join(tmpDir, "fork");
+    await simpleGit().clone(sourceDir, otherDir);
+    await simpleGit(otherDir).addConfig("user.email", "test@test.com");
+    await simpleGit(otherDir).addConfig("user.name", "Test");
+    const forkSha = await commitFile(otherDir, "fork.txt");
+    const bundlePath = join(tmpDir, "fork.bundle");
+    await simpleGit(otherDir).raw(["bundle", "create", bundlePath, "--all"]);
+
+    expect(await isCommitCached(sourceDir, forkSha)).toBe(false);
+    await importBundle(bundlePath, sourceDir);
+    expect(await isCommitCached(sourceDir, forkSha)).toBe(true);
+  });
+
+  it("fails to export a source that isn't cached", async () => {
+    await expect(exportBundle(sourceDir, join(tmpDir, "x.bundle"))).rejects.toThrow("is not in the local cache");
+  });
+
+  it("resolveRepo picks up new upstream commits through the cache", async () => {
+    const first = await resolveRepo(sourceDir);
+    await cleanupClone(first);
+    const newSha = await commitFile(sourceDir, "second.txt");
+
+    const second = await resolveRepo(sourceDir);
+    try {
+      expect(await resolveRef(second)).toBe(newSha);
+    } finally {
+      await cleanupClone(second);
+    }
+  });
+
+  it("lists cached repos with their source", async () => {
+    await fetchCachedRepo(sourceDir);
+
+    const repos = await listCachedRepos();
+    expect(repos).toHaveLength(1);
+    expect(repos[0].source).toBe(sourceDir);
+    expect(repos[0].key).toBe(cacheKey(sourceDir));
+    expect(repos[0].fetchedAt).toBeDefined();
+  });
+
+  it("verifies a healthy cached repo", async () => {
+    await fetchCachedRepo(sourceDir);
+    const [repo] = await listCachedRepos();
+    expect(await verifyCachedRepo(repo)).toBeNull();
+  });
+
+  it("reports a corrupt cached repo", async () => {
+    const repoDir = await fetchCachedRepo(sourceDir);
+    await rm(join(repoDir, "objects"), { recursive: true, force: true });
+    await mkdir(join(repoDir, "objects"));
+
+    const [repo] = await listCachedRepos();
+    expect(await verifyCachedRepo(repo)).not.toBeNull();
+  });
+
+  it("cleans a single source or the whole cache", async () => {
+    const otherDir = join(tmpDir, "other");
+    await createSourceRepo(otherDir);
+    await fetchCachedRepo(sourceDir);
+    await fetchCachedRepo(otherDir);
+
+    expect(await cleanCache(sourceDir)).toBe(1);
+    expect((await listCachedRepos()).map((r) => r.source)).toEqual([otherDir]);
+
+    expect(await cleanCache()).toBe(1);
+    expect(await listCachedRepos()).toEqual([]);
+  });
+
+  describe("partial clones", () => {
+    // Filters only apply over a transport; plain paths get a full clone
+    let url: string;
+
+    beforeEach(async () => {
+      const git = simpleGit(sourceDir);
+      await mkdir(join(sourceDir, "docx"), { recursive: true });
+      await writeFile(join(sourceDir, "docx", "SKILL.md"), "# DOCX\n");
+      await git.add(".");
+      await git.commit("add docx");
+      initialSha = (await git.revparse(["HEAD"])).trim();
+      await git.addConfig("uploadpack.allowFilter", "true");
+      url = pathToFileURL(sourceDir).href;
+    });
+
+    it("only downloads the files of the checked-out paths", async () => {
+      const checkout = await cloneAtRef(url, initialSha, { paths: ["pdf"] });
+      try {
+        await access(join(checkout, "pdf", "SKILL.md"));
+        await expect(access(join(checkout, "docx"))).rejects.toThrow();
+        expect(await resolveRef(checkout)).toBe(initialSha);
+      } finally {
+        await cleanupClone(checkout);
+      }
+
+      expect(await isCommitCached(url, initialSha, ["pdf"])).toBe(true);
+      expect(await isCommitCached(url, initialSha, ["docx"])).toBe(false);
+    });
+
+    it("fetches a path's files on demand, and never offline", async () => {
+      await ensureCachedFiles(url, initialSha, ["pdf"]);
+      await expect(ensureCachedFiles(url, initialSha, ["docx"], { offline: true })).rejects.toThrow(
+        "are not in the local cache (offline mode)"
+      );
+
+      await ensureCachedFiles(url, initialSha, ["docx"]);
+      await rm(sourceDir, { recursive: true, force: true });
+
+      const checkout = await cloneAtRef(url, initialSha, { paths: ["pdf", "docx"], offline: true });
+      try {
+        await access(join(checkout, "pdf", "SKILL.md"));
+        await access(join(checkout, "docx", "SKILL.md"));
+      } finally {
+        await cleanupClone(checkout);
+      }
+    });
+
+    it("fetches a pinned commit by SHA into an existing entry", async () => {
+      await fetchCachedRepo(url);
+      const newSha = await commitFile(sourceDir, "second.txt");
+
+      await ensureCachedCommit(url, newSha);
+      expect(await isCommitCached(url, newSha)).toBe(true);
+    });
+
+    it("checks out the whole tree for resolveRepo", async () => {
+      const checkout = await resolveRepo(url);
+      try {
+        await access(join(checkout, "pdf", "SKILL.md"));
+        await access(join(checkout, "docx", "SKILL.md"));
+      } finally {
+        await cleanupClone(checkout);
+      }
+    });
+
+    it("replaces a partial entry with a full clone without breaking checkouts that share it", async () => {
+      const checkout = await cloneAtRef(url, initialSha, { paths: ["pdf"] });
+      try {
+        // Fetching docx's files into the entry fails, as with a server that
+        // won't serve objects by ID; a fresh clone still works
+        await simpleGit(cachedRepoPath(url)).addConfig("remote.origin.uploadpack", "false");
+
+        const repoDir = await ensureCachedFiles(url, initialSha, ["docx"]);
+        expect(await isCommitCached(url, initialSha, ["docx"])).toBe(true);
+        expect(await simpleGit(repoDir).getConfig("remote.origin.promisor")).toMatchObject({ value: null });
+        expect((await listCachedRepos()).map((r) => r.dir)).toEqual([repoDir]);
+
+        // The earlier checkout still reads its objects through the cache entry
+        expect(await simpleGit(checkout).raw(["cat-file", "-p", `${initialSha}:pdf/SKILL.md`])).toBe("# PDF\n");
+      } finally {
+        await cleanupClone(checkout);
+      }
+    });
+
+    it("falls back to a full clone when the server doesn't support filters", async () => {
+      await simpleGit(sourceDir).addConfig("uploadpack.allowFilter", "false");
+
+      const checkout = await cloneAtRef(url, initialSha, { paths: ["pdf"] });
+      await cleanupClone(checkout);
+      expect(await isCommitCached(url, initialSha, ["docx"])).toBe(true);
+    });
+  });
+});
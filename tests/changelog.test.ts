@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, mkdir, writeFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+import { simpleGit } from "simple-git";
+import { readChangelog } from "../src/changelog.js";
+
+let tmpDir: string;
+let sourceDir: string;
+const originalCacheDir = process.env.SKILLS_LOCK_CACHE_DIR;
+
+async function commitFiles(message: string, files: Record<string, string | Buffer>): Promise<string> {
+  const git = simpleGit(sourceDir);
+  for (const [path, content] of Object.entries(files)) {
+    await mkdir(join(sourceDir, path, ".."), { recursive: true });
+    await writeFile(join(sourceDir, path), content);
+  }
+  await git.add(".");
+  await git.commit(message);
+  return (await git.revparse(["HEAD"])).trim();
+}
+
+beforeEach(async () => {
+  tmpDir = await mkdtemp(join(tmpdir(), "skills-lock-changelog-test-"));
+  process.env.SKILLS_LOCK_CACHE_DIR = join(tmpDir, "cache");
+  sourceDir = join(tmpDir, "source");
+  await mkdir(sourceDir, { recursive: true });
+  const git = simpleGit(sourceDir);
+  await git.init();
+  await git.addConfig("user.email", "test@test.com");
+  await git.addConfig("user.name", "Test");
+});
+
+afterEach(async () => {
+  if (originalCacheDir === undefined) {
+    delete process.env.SKILLS_LOCK_CACHE_DIR;
+  } else {
+    process.env.SKILLS_LOCK_CACHE_DIR = originalCacheDir;
+  }
+  await rm(tmpDir, { recursive: true, force: true });
+});
+
+describe("readChangelog", () => {
+  it("lists the commits and file changes under a skill's path", async () => {
+    const from = await commitFiles("initial", { "skills/pdf/SKILL.md": "# pdf\n", "skills/docx/SKILL.md": "# docx\n" });
+    const forms = await commitFiles("Add forms support", { "skills/pdf/forms.md": "# forms\nfill\n" });
+    await commitFiles("Update docx", { "skills/docx/SKILL.md": "# docx v2\n" });
+    const to = await commitFiles("Fix title", { "skills/pdf/SKILL.md": "# PDF\n", "skills/pdf/logo.png": Buffer.from([0, 1, 2]) });
+
+    const changelog = await readChangelog(sourceDir, "skills/pdf", from, to);
+
+    expect(changelog.commits).toEqual([
+      { sha: to, subject: "Fix title" },
+      { sha: forms, subject: "Add forms support" },
+    ]);
+    expect(changelog.files).toEqual([
+      { path: "SKILL.md", additions: 1, deletions: 1 },
+      { path: "forms.md", additions: 2, deletions: 0 },
+      { path: "logo.png" },
+    ]);
+  });
+
+  it("is empty when nothing under the path changed", async () => {
+    const from = await commitFiles("initial", { "skills/pdf/SKILL.md": "# pdf\n" });
+    const to = await commitFiles("readme", { "README.md": "# skills\n" });
+
+    expect(await readChangelog(sourceDir, "skills/pdf", from, to)).toEqual({ commits: [], files: [] });
+  });
+
+  it("downloads the skill's files into a partial clone cache", async () => {
+    const from = await commitFiles("initial", { "skills/pdf/SKILL.md": "# pdf\n", "skills/docx/SKILL.md": "# docx\n" });
+    const to = await commitFiles("pdf v2", { "skills/pdf/SKILL.md": "# pdf v2\n" });
+    await simpleGit(sourceDir).addConfig("uploadpack.allowFilter", "true");
+
+    const changelog = await readChangelog(pathToFileURL(sourceDir).href, "skills/pdf", from, to);
+    expect(changelog.files).toEqual([{ path: "SKILL.md", additions: 1, deletions: 1 }]);
+  });
+});
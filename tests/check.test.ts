@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, mkdir, writeFile, rm, symlink } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { checkSkills, checkPassed, findShadowedSkills } from "../src/check.js";
+import { computeSkillHash, writeSkillMetadata } from "../src/installer.js";
+import type { Lockfile } from "../src/types.js";
+
+const SHA_A = "a".repeat(40);
+const SHA_B = "b".repeat(40);
+
+let originalCwd: string;
+let tmpDir: string;
+
+beforeEach(async () => {
+  originalCwd = process.cwd();
+  tmpDir = await mkdtemp(join(tmpdir(), "check-test-"));
+  process.chdir(tmpDir);
+});
+
+afterEach(async () => {
+  process.chdir(originalCwd);
+  await rm(tmpDir, { recursive: true, force: true });
+});
+
+async function installOnDisk(name: string, content: string, ref?: string): Promise<string> {
+  const dir = join(".agents/skills", name);
+  await mkdir(dir, { recursive: true });
+  await writeFile(join(dir, "SKILL.md"), content);
+  const integrity = await computeSkillHash(dir);
+  if (ref) await writeSkillMetadata(dir, ref, integrity);
+  return integrity;
+}
+
+function lock(skills: Lockfile["skills"]): Lockfile {
+  return { version: 1, skills };
+}
+
+describe("checkSkills", () => {
+  it("puts a matching skill in verified", async () => {
+    const integrity = await installOnDisk("pdf", "# PDF", SHA_A);
+
+    const result = await checkSkills(lock({ pdf: { source: "s", path: "pdf", ref: SHA_A, integrity } }));
+    expect(result.verified).toEqual(["pdf"]);
+    expect(checkPassed(result)).toBe(true);
+  });
+
+  it("sorts each locked skill into exactly one bucket", async () => {
+    const integrity = await installOnDisk("modified", "# original", SHA_A);
+    await writeFile(".agents/skills/modified/SKILL.md", "# edited");
+    await installOnDisk("stale", "# stale", SHA_B);
+    await installOnDisk("manual", "# manual");
+    await installOnDisk("rogue", "# rogue", SHA_A);
+
+    const result = await checkSkills(
+      lock({
+        missing: { source: "s", path: "missing", ref: SHA_A },
+        modified: { source: "s", path: "modified", ref: SHA_A, integrity },
+        stale: { source: "s", path: "stale", ref: SHA_A },
+        manual: { source: "s", path: "manual", ref: SHA_A },
+      })
+    );
+
+    expect(result.verified).toEqual([]);
+    expect(result.missing).toEqual([{ name: "missing", ref: SHA_A }]);
+    expect(result.wrongRef).toEqual([{ name: "stale", have: SHA_B, want: SHA_A }]);
+    expect(result.unverified).toEqual([{ name: "manual", ref: SHA_A }]);
+    expect(result.extra).toEqual([{ name: "rogue", ref: SHA_A }]);
+    expect(result.modified).toHaveLength(1);
+    expect(result.modified[0]).toMatchObject({ name: "modified", ref: SHA_A, expected: integrity });
+    expect(result.modified[0].actual).not.toBe(integrity);
+    expect(checkPassed(result)).toBe(false);
+  });
+
+  it("gives the same result with concurrent hashing", async () => {
+    const skills: Lockfile["skills"] = {};
+    for (const name of ["a", "b", "c", "d"]) {
+      const integrity = await installOnDisk(name, `# ${name}`, SHA_A);
+      skills[name] = { source: "s", path: name, ref: SHA_A, integrity };
+    }
+
+    const result = await checkSkills(lock(skills), { concurrency: 3 });
+    expect(result.verified).toEqual(["a", "b", "c", "d"]);
+  });
+
+  describe("with several target directories", () => {
+    const targets = [".agents/skills", ".claude/skills", ".cursor/skills"];
+
+    it("verifies a skill only when it is correct in every target", async () => {
+      const integrity = await installOnDisk("pdf", "# PDF", SHA_A);
+      await mkdir(".claude/skills", { recursive: true });
+      await symlink("../../.agents/skills/pdf", ".claude/skills/pdf");
+      await mkdir(".cursor/skills", { recursive: true });
+      await symlink("../../.agents/skills/pdf", ".cursor/skills/pdf");
+
+      const result = await checkSkills(lock({ pdf: { source: "s", path: "pdf", ref: SHA_A, integrity } }), { targets });
+      expect(result.verified).toEqual(["pdf"]);
+      expect(checkPassed(result)).toBe(true);
+    });
+
+    it("reports a skill that is stale or missing in one target but fine in another", async () => {
+      const integrity = await installOnDisk("pdf", "# PDF", SHA_A);
+      await mkdir(".claude/skills/pdf", { recursive: true });
+      await writeFile(".claude/skills/pdf/SKILL.md", "# old PDF");
+      await writeSkillMetadata(".claude/skills/pdf", SHA_B, integrity);
+
+      const result = await checkSkills(lock({ pdf: { source: "s", path: "pdf", ref: SHA_A, integrity } }), { targets });
+      expect(result.verified).toEqual([]);
+      expect(result.wrongRef).toEqual([{ name: "pdf", have: SHA_B, want: SHA_A, target: ".claude/skills" }]);
+      expect(result.missing).toEqual([{ name: "pdf", ref: SHA_A, target: ".cursor/skills" }]);
+      expect(checkPassed(result)).toBe(false);
+    });
+
+    it("reports extra skills per target", async () => {
+      await mkdir(".cursor/skills/rogue", { recursive: true });
+
+      const result = await checkSkills(lock({}), { targets });
+      expect(result.extra).toEqual([{ name: "rogue", target: ".cursor/skills" }]);
+    });
+  });
+});
+
+describe("findShadowedSkills", () => {
+  it("reports project skills pinned to a different ref than the global skill", () => {
+    const entry = (ref: string) => ({ source: "owner/repo", path: "skills/x", ref });
+    const project: Lockfile = { version: 1, skills: { pdf: entry(SHA_A), xlsx: entry(SHA_A), docx: entry(SHA_A) } };
+    const global: Lockfile = { version: 1, skills: { pdf: entry(SHA_B), xlsx: entry(SHA_A) } };
+
+    expect(findShadowedSkills(project, global)).toEqual([{ name: "pdf", ref: SHA_A, globalRef: SHA_B }]);
+  });
+});
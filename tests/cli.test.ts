@@ -7,8 +7,10 @@
  */
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import { mkdtemp, writeFile, readFile, rm, chmod } from "node:fs/promises";
+import { createServer } from "node:http";
 import { tmpdir } from "node:os";
 import { join, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
 import { execa } from "execa";
 
 const CLI = resolve("dist/cli.js");
@@ -47,6 +49,69 @@ async function makeFakeNpxDir(tmpDir: string): Promise<string> {
   return binDir;
 }
 
+/**
+ * Creates a fake `npx` script whose `npx skills add/remove` copies skill
+ * directories into .agents/skills/ and logs every `skills` invocation to
+ * `logFile`. Returns the bin dir path so callers can prepend it to PATH.
+ */
+async function makeFakeSkillsCliDir(tmpDir: string, logFile: string): Promise<string> {
+  const binDir = join(tmpDir, "fake-skills-bin");
+  await execa("mkdir", ["-p", binDir]);
+  const realNpx = (await execa("which", ["npx"])).stdout.trim();
+  const script = [
+    "#!/bin/sh",
+    'if [ "$1" = "skills" ]; then',
+    "  shift",
+    `  echo "$*" >> "${logFile}"`,
+    '  case "$1" in',
+    '    add) mkdir -p .agents/skills && rm -rf ".agents/skills/$4" && cp -R "$2" ".agents/skills/$4" ;;',
+    '    remove) rm -rf ".agents/skills/$3" ;;',
+    "  esac",
+    "  exit 0",
+    "fi",
+    `exec ${realNpx} "$@"`,
+    "",
+  ].join("\n");
+  await writeFile(join(binDir, "npx"), script);
+  await chmod(join(binDir, "npx"), 0o755);
+  return binDir;
+}
+
+/**
+ * A valid SKILL.md for a skill named `name`, with `body` after the frontmatter.
+ */
+function skillMd(name: string, body = `# ${name}\n`): string {
+  return `---\nname: ${name}\ndescription: The ${name} skill.\n---\n${body}`;
+}
+
+/**
+ * Creates a local git repo with one skill directory per name under skills/.
+ * Returns the repo path and the SHA of its only commit.
+ */
+async function makeSourceRepo(dir: string, skills: string[]): Promise<{ repo: string; sha: string }> {
+  await execa("mkdir", ["-p", dir]);
+  await execa("git", ["init", "-q"], { cwd: dir });
+  await execa("git", ["config", "user.email", "test@test.com"], { cwd: dir });
+  await execa("git", ["config", "user.name", "Test"], { cwd: dir });
+  for (const skill of skills) {
+    await execa("mkdir", ["-p", join(dir, "skills", skill)]);
+    await writeFile(join(dir, "skills", skill, "SKILL.md"), skillMd(skill));
+  }
+  await execa("git", ["add", "."], { cwd: dir });
+  await execa("git", ["commit", "-q", "-m", "initial"], { cwd: dir });
+  const sha = (await execa("git", ["rev-parse", "HEAD"], { cwd: dir })).stdout.trim();
+  return { repo: dir, sha };
+}
+
+/** Install sources passed to `npx skills add`, read from the fake CLI's log. */
+async function loggedAddSources(logFile: string): Promise<string[]> {
+  const log = await readFile(logFile, "utf-8");
+  return log
+    .split("\n")
+    .filter((line) => line.startsWith("add "))
+    .map((line) => line.split(" ")[1]);
+}
+
 let tmpDir: string;
 let originalCwd: string;
 
@@ -123,6 +188,151 @@ describe("update", () => {
   });
 });
 
+describe("outdated", () => {
+  let env: Record<string, string>;
+  let project: string;
+  let repo: string;
+  let sha: string;
+
+  beforeEach(async () => {
+    env = { SKILLS_LOCK_CACHE_DIR: join(tmpDir, "cache") };
+    ({ repo, sha } = await makeSourceRepo(join(tmpDir, "source"), ["pdf", "xlsx"]));
+    project = join(tmpDir, "project");
+    await execa("mkdir", ["-p", project]);
+    await writeFile(
+      join(project, "skills.lock"),
+      JSON.stringify({
+        version: 1,
+        skills: {
+          pdf: { source: repo, path: "skills/pdf", ref: sha },
+          xlsx: { source: repo, path: "skills/xlsx", ref: sha },
+        },
+      }) + "\n"
+    );
+  });
+
+  it("exits 0 when every skill is at its source's latest commit", async () => {
+    const { stdout, exitCode } = await runCli(["outdated"], project, env);
+
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain("Everything up to date.");
+  });
+
+  it("lists newer commits without touching skills.lock, and exits 1", async () => {
+    await writeFile(join(repo, "skills", "pdf", "SKILL.md"), skillMd("pdf", "# pdf v2\n"));
+    await execa("git", ["commit", "-q", "-am", "pdf v2"], { cwd: repo });
+    const newSha = (await execa("git", ["rev-parse", "HEAD"], { cwd: repo })).stdout.trim();
+    const before = await readFile(join(project, "skills.lock"), "utf-8");
+
+    const { stdout, exitCode } = await runCli(["outdated"], project, env);
+
+    expect(exitCode).toBe(1);
+    expect(stdout).toContain(`pdf: ${sha.slice(0, 7)} (`);
+    expect(stdout).toContain(`→ ${newSha.slice(0, 7)} (`);
+    expect(stdout).toContain("1 commit(s) touching skills/pdf");
+    expect(stdout).not.toContain("xlsx");
+    expect(await readFile(join(project, "skills.lock"), "utf-8")).toBe(before);
+
+    const json = await runCli(["--json", "outdated", "pdf"], project, env);
+    expect(json.exitCode).toBe(1);
+    const result = JSON.parse(json.stdout);
+    expect(result.command).toBe("outdated");
+    expect(result.outdated).toMatchObject([{ name: "pdf", current: sha, latest: newSha, commits: 1 }]);
+    expect(result.upToDate).toEqual([]);
+  });
+
+  it("fails for a skill that isn't locked", async () => {
+    const { stderr, exitCode } = await runCli(["outdated", "nope"], project, env);
+
+    expect(exitCode).toBe(1);
+    expect(stderr).toContain("Skill 'nope' not found in skills.lock");
+  });
+});
+
+describe("lint", () => {
+  let env: Record<string, string>;
+  let project: string;
+  let repo: string;
+
+  beforeEach(async () => {
+    env = {
+      PATH: `${await makeFakeNpxDir(tmpDir)}:${process.env.PATH}`,
+      SKILLS_LOCK_CACHE_DIR: join(tmpDir, "cache"),
+    };
+    ({ repo } = await makeSourceRepo(join(tmpDir, "source"), ["pdf", "xlsx"]));
+    await writeFile(join(repo, "skills", "xlsx", "SKILL.md"), "---\nname: spreadsheets\n---\n# xlsx\n");
+    await writeFile(join(repo, "skills", "pdf", "SKILL.md"), skillMd("pdf").replace("---\n#", "version: 2\n---\n#"));
+    await execa("git", ["commit", "-q", "-am", "frontmatter"], { cwd: repo });
+    project = join(tmpDir, "project");
+    await execa("mkdir", ["-p", project]);
+  });
+
+  it("lints skill directories given as paths", async () => {
+    const { stdout, exitCode } = await runCli(["lint", join(repo, "skills")], project, env);
+
+    expect(exitCode).toBe(1);
+    expect(stdout).toContain("  - warning: Unknown frontmatter field 'version' (put custom fields under 'metadata')");
+    expect(stdout).toContain("  - error: 'name' is 'spreadsheets', but must match the skill's directory name 'xlsx'");
+    expect(stdout).toContain("  - error: Missing required field 'description'");
+
+    // Warnings alone only fail with --strict
+    const pdf = join(repo, "skills", "pdf");
+    expect((await runCli(["lint", pdf], project, env)).exitCode).toBe(0);
+    expect((await runCli(["lint", pdf, "--strict"], project, env)).exitCode).toBe(1);
+
+    const json = await runCli(["--json", "lint", pdf], project, env);
+    expect(JSON.parse(json.stdout)).toEqual({
+      command: "lint",
+      ok: true,
+      skills: [
+        {
+          name: "pdf",
+          path: pdf,
+          issues: [{ severity: "warning", message: "Unknown frontmatter field 'version' (put custom fields under 'metadata')" }],
+        },
+      ],
+    });
+
+    const empty = await runCli(["lint", project], project, env);
+    expect(empty.exitCode).toBe(1);
+    expect(empty.stderr).toContain(`No SKILL.md found under ${project}`);
+  });
+
+  it("refuses to add a skill with lint errors unless --no-lint", async () => {
+    const refused = await runCli(["add", repo, "--skill", "xlsx", "--installer", "native"], project, env);
+    expect(refused.exitCode).toBe(1);
+    expect(refused.stderr).toContain("xlsx has an invalid SKILL.md:");
+    expect(refused.stderr).toContain("--no-lint");
+    await expect(readFile(join(project, "skills.lock"))).rejects.toThrow();
+
+    const warned = await runCli(["add", repo, "--skill", "pdf", "--installer", "native"], project, env);
+    expect(warned.exitCode).toBe(0);
+    expect(warned.stderr).toContain("Warning: pdf: Unknown frontmatter field 'version'");
+
+    const forced = await runCli(["add", repo, "--skill", "xlsx", "--no-lint", "--installer", "native"], project, env);
+    expect(forced.exitCode).toBe(0);
+    expect(forced.stderr).toContain("Warning: xlsx: Missing required field 'description'");
+  });
+
+  it("lints installed skills from skills.lock, and only warns on install", async () => {
+    await runCli(["add", repo, "--skill", "pdf", "--installer", "native"], project, env);
+    await runCli(["add", repo, "--skill", "xlsx", "--no-lint", "--installer", "native"], project, env);
+
+    const install = await runCli(["install", "--force", "--installer", "native"], project, env);
+    expect(install.exitCode).toBe(0);
+    expect(install.stderr).toContain("Warning: xlsx: Missing required field 'description'");
+
+    const lint = await runCli(["lint", "--installer", "native"], project, env);
+    expect(lint.exitCode).toBe(1);
+    expect(lint.stdout).toContain(`xlsx (${join(".agents", "skills", "xlsx")}):\n  - error: 'name' is 'spreadsheets'`);
+
+    await rm(join(project, ".agents", "skills", "xlsx"), { recursive: true });
+    const skipped = await runCli(["lint", "--installer", "native"], project, env);
+    expect(skipped.exitCode).toBe(0);
+    expect(skipped.stdout).toContain("Skipping xlsx (not installed");
+  });
+});
+
 describe("install", () => {
   it("fails with a clear error when skills.lock does not exist", async () => {
     const { exitCode, stderr } = await runCli(["install"], tmpDir);
@@ -141,6 +351,39 @@ describe("install", () => {
 
     expect(exitCode).toBe(0);
     expect(stdout).toContain("No skills in lockfile");
+
+    // Same document shape as a run that installs something
+    const json = await runCli(["--json", "install"], tmpDir);
+    expect(JSON.parse(json.stdout)).toEqual({
+      command: "install",
+      installed: [],
+      alreadyInstalled: [],
+      linked: [],
+      lint: [],
+      failed: [],
+    });
+  });
+
+  it("--offline names every skill whose ref is not cached", async () => {
+    await writeFile(
+      join(tmpDir, "skills.lock"),
+      JSON.stringify({
+        version: 1,
+        skills: {
+          pdf: { source: "https://github.com/anthropics/skills.git", path: "skills/pdf", ref: SHA_A },
+          xlsx: { source: "https://github.com/anthropics/skills.git", path: "skills/xlsx", ref: "b".repeat(40) },
+        },
+      }) + "\n"
+    );
+
+    const { stderr, exitCode } = await runCli(["install", "--offline"], tmpDir, {
+      SKILLS_LOCK_CACHE_DIR: join(tmpDir, "cache"),
+    });
+
+    expect(exitCode).toBe(1);
+    expect(stderr).toContain("Cannot install offline");
+    expect(stderr).toContain("pdf (https://github.com/anthropics/skills.git at aaaaaaa)");
+    expect(stderr).toContain("xlsx (https://github.com/anthropics/skills.git at bbbbbbb)");
   });
 
   it("reports 'All skills verified.' when metadata matches lockfile", async () => {
@@ -261,6 +504,37 @@ describe("check", () => {
     expect(stdout).toContain("Unverified");
   });
 
+  it("writes JUnit and SARIF reports alongside the normal output", async () => {
+    await writeFile(
+      join(tmpDir, "skills.lock"),
+      JSON.stringify({
+        version: 1,
+        skills: { pdf: { source: "https://github.com/anthropics/skills.git", path: "skills/pdf", ref: SHA_A } },
+      }, null, 2) + "\n"
+    );
+
+    const { stdout, exitCode } = await runCli(
+      ["check", "--report", "junit=check.xml", "--report", "sarif=check.sarif"],
+      tmpDir
+    );
+    expect(exitCode).toBe(1);
+    expect(stdout).toContain("Missing");
+
+    const xml = await readFile(join(tmpDir, "check.xml"), "utf-8");
+    expect(xml).toContain('<failure type="missing"');
+    const sarif = JSON.parse(await readFile(join(tmpDir, "check.sarif"), "utf-8"));
+    expect(sarif.runs[0].results[0].ruleId).toBe("missing");
+    expect(sarif.runs[0].results[0].locations[0].physicalLocation.region.startLine).toBe(4);
+  });
+
+  it("rejects an unknown report format", async () => {
+    await writeFile(join(tmpDir, "skills.lock"), JSON.stringify({ version: 1, skills: {} }) + "\n");
+
+    const { stderr, exitCode } = await runCli(["check", "--report", "html=out.html"], tmpDir);
+    expect(exitCode).not.toBe(0);
+    expect(stderr).toContain("Unknown report format 'html'");
+  });
+
   it("reports extra skill with exit 1", async () => {
     await writeFile(
       join(tmpDir, "skills.lock"),
@@ -275,6 +549,1314 @@ describe("check", () => {
   });
 });
 
+describe("diff", () => {
+  const SHA_B = "b".repeat(40);
+
+  async function commitLockfile(skills: Record<string, unknown>, message: string) {
+    await writeFile(
+      join(tmpDir, "skills.lock"),
+      JSON.stringify({ version: 1, skills }) + "\n"
+    );
+    await execa("git", ["add", "skills.lock"], { cwd: tmpDir });
+    await execa("git", ["commit", "-q", "-m", message], { cwd: tmpDir });
+  }
+
+  beforeEach(async () => {
+    await execa("git", ["init", "-q"], { cwd: tmpDir });
+    await execa("git", ["config", "user.email", "test@test.com"], { cwd: tmpDir });
+    await execa("git", ["config", "user.name", "Test"], { cwd: tmpDir });
+  });
+
+  it("compares HEAD against the working tree by default", async () => {
+    await commitLockfile(
+      { pdf: { source: "https://github.com/anthropics/skills.git", path: "skills/pdf", ref: SHA_A } },
+      "lock pdf"
+    );
+    await writeFile(
+      join(tmpDir, "skills.lock"),
+      JSON.stringify({
+        version: 1,
+        skills: {
+          pdf: { source: "https://github.com/anthropics/skills.git", path: "skills/pdf", ref: SHA_B },
+          xlsx: { source: "https://github.com/anthropics/skills.git", path: "skills/xlsx", ref: SHA_A },
+        },
+      }) + "\n"
+    );
+
+    const { stdout, exitCode } = await runCli(["diff"], tmpDir);
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain("+ xlsx");
+    expect(stdout).toContain("~ pdf: aaaaaaa → bbbbbbb");
+  });
+
+  it("compares two revisions and prints JSON", async () => {
+    await commitLockfile(
+      { pdf: { source: "https://github.com/anthropics/skills.git", path: "skills/pdf", ref: SHA_A } },
+      "lock pdf"
+    );
+    await commitLockfile({}, "drop pdf");
+
+    const { stdout, exitCode } = await runCli(["diff", "HEAD~1", "HEAD", "--json"], tmpDir);
+    expect(exitCode).toBe(0);
+    const diff = JSON.parse(stdout);
+    expect(diff.from).toBe("HEAD~1");
+    expect(diff.to).toBe("HEAD");
+    expect(diff.added).toEqual([]);
+    expect(diff.changed).toEqual([]);
+    expect(diff.removed).toEqual([
+      {
+        name: "pdf",
+        source: "https://github.com/anthropics/skills.git",
+        path: "skills/pdf",
+        ref: SHA_A,
+        integrity: null,
+      },
+    ]);
+  });
+
+  it("includes the archive hash of re-pinned archive sources in JSON", async () => {
+    const source = "https://example.com/releases/foo.tgz";
+    const pin = (hex: string) => ({ source, path: "foo", archive: `sha256:${hex.repeat(64)}`, integrity: `sha256:${hex.repeat(64)}` });
+    await commitLockfile({ foo: pin("a") }, "lock foo");
+    await commitLockfile({ foo: pin("b") }, "re-pin foo");
+
+    const { stdout, exitCode } = await runCli(["diff", "HEAD~1", "HEAD", "--json"], tmpDir);
+    expect(exitCode).toBe(0);
+    expect(JSON.parse(stdout).changed).toEqual([
+      { name: "foo", old: pin("a"), new: pin("b") },
+    ]);
+  });
+
+  it("treats a lockfile missing at a revision as empty", async () => {
+    await writeFile(join(tmpDir, "README.md"), "# repo\n");
+    await execa("git", ["add", "README.md"], { cwd: tmpDir });
+    await execa("git", ["commit", "-q", "-m", "initial"], { cwd: tmpDir });
+    await commitLockfile(
+      { pdf: { source: "https://github.com/anthropics/skills.git", path: "skills/pdf", ref: SHA_A } },
+      "lock pdf"
+    );
+
+    const { stdout, exitCode } = await runCli(["diff", "HEAD~1", "HEAD"], tmpDir);
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain("Added:");
+    expect(stdout).toContain("+ pdf");
+  });
+
+  it("fails with a clear error for an unknown revision", async () => {
+    await commitLockfile({}, "empty lockfile");
+
+    const { stderr, exitCode } = await runCli(["diff", "no-such-branch"], tmpDir);
+    expect(exitCode).toBe(1);
+    expect(stderr).toContain("Unknown git revision 'no-such-branch'");
+  });
+});
+
+describe("migrate", () => {
+  const entry = {
+    source: "https://github.com/anthropics/skills.git",
+    path: "skills/pdf",
+    ref: SHA_A,
+    integrity: `sha256:${"e".repeat(64)}`,
+    track: "release",
+  };
+
+  it("rewrites a version 1 lockfile as version 2 without losing fields", async () => {
+    await writeFile(join(tmpDir, "skills.lock"), JSON.stringify({ version: 1, skills: { pdf: entry } }) + "\n");
+
+    const { stdout, exitCode } = await runCli(["migrate"], tmpDir);
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain("Migrated skills.lock from version 1 to 2.");
+
+    const lockfile = JSON.parse(await readFile(join(tmpDir, "skills.lock"), "utf-8"));
+    expect(lockfile).toEqual({ version: 2, skills: { pdf: entry } });
+  });
+
+  it("leaves a version 2 lockfile alone", async () => {
+    const raw = JSON.stringify({ version: 2, skills: { pdf: { ...entry, notes: "vetted" } } });
+    await writeFile(join(tmpDir, "skills.lock"), raw);
+
+    const { stdout, exitCode } = await runCli(["migrate", "--json"], tmpDir);
+    expect(exitCode).toBe(0);
+    expect(JSON.parse(stdout)).toEqual({ command: "migrate", from: 2, to: 2, migrated: false });
+    expect(await readFile(join(tmpDir, "skills.lock"), "utf-8")).toBe(raw);
+  });
+
+  it("tells the user to upgrade when the lockfile is newer than the CLI", async () => {
+    await writeFile(join(tmpDir, "skills.lock"), JSON.stringify({ version: 3, skills: {} }) + "\n");
+
+    const { stderr, exitCode } = await runCli(["check"], tmpDir);
+    expect(exitCode).toBe(1);
+    expect(stderr).toContain("Unsupported lockfile version: 3");
+    expect(stderr).toContain("upgrade skills-lock");
+  });
+});
+
+describe("merge-driver", () => {
+  const SHA_B = "b".repeat(40);
+  const SHA_C = "c".repeat(40);
+  const pin = (name: string, ref: string) => ({
+    source: "https://github.com/anthropics/skills.git",
+    path: `skills/${name}`,
+    ref,
+  });
+
+  async function commitLockfile(skills: Record<string, unknown>, message: string) {
+    await writeFile(join(tmpDir, "skills.lock"), JSON.stringify({ version: 1, skills }, null, 2) + "\n");
+    await execa("git", ["add", "-A"], { cwd: tmpDir });
+    await execa("git", ["commit", "-q", "-m", message], { cwd: tmpDir });
+  }
+
+  beforeEach(async () => {
+    await execa("git", ["init", "-q", "-b", "main"], { cwd: tmpDir });
+    await execa("git", ["config", "user.email", "test@test.com"], { cwd: tmpDir });
+    await execa("git", ["config", "user.name", "Test"], { cwd: tmpDir });
+
+    const { exitCode } = await runCli(["merge-driver", "--install"], tmpDir);
+    expect(exitCode).toBe(0);
+    // Point the registered driver at the built CLI instead of the published package
+    await execa("git", ["config", "merge.skills-lock.driver", `node ${CLI} merge-driver %O %A %B`], { cwd: tmpDir });
+  });
+
+  it("merges skills added on two branches without a conflict", async () => {
+    await commitLockfile({ pdf: pin("pdf", SHA_A) }, "lock pdf");
+    await execa("git", ["checkout", "-q", "-b", "feature"], { cwd: tmpDir });
+    await commitLockfile({ docx: pin("docx", SHA_A), pdf: pin("pdf", SHA_A) }, "add docx");
+    await execa("git", ["checkout", "-q", "main"], { cwd: tmpDir });
+    await commitLockfile({ pdf: pin("pdf", SHA_A), xlsx: pin("xlsx", SHA_A) }, "add xlsx");
+
+    const merge = await execa("git", ["merge", "-q", "--no-edit", "feature"], { cwd: tmpDir, reject: false });
+    expect(merge.exitCode).toBe(0);
+
+    const lockfile = JSON.parse(await readFile(join(tmpDir, "skills.lock"), "utf-8"));
+    expect(Object.keys(lockfile.skills)).toEqual(["docx", "pdf", "xlsx"]);
+  });
+
+  it("reports a skill pinned to different refs on each branch", async () => {
+    await commitLockfile({ pdf: pin("pdf", SHA_A) }, "lock pdf");
+    await execa("git", ["checkout", "-q", "-b", "feature"], { cwd: tmpDir });
+    await commitLockfile({ pdf: pin("pdf", SHA_C) }, "bump pdf to c");
+    await execa("git", ["checkout", "-q", "main"], { cwd: tmpDir });
+    await commitLockfile({ pdf: pin("pdf", SHA_B) }, "bump pdf to b");
+
+    const merge = await execa("git", ["merge", "--no-edit", "feature"], { cwd: tmpDir, reject: false });
+    expect(merge.exitCode).not.toBe(0);
+    expect(merge.stderr).toContain("pdf: ours bbbbbbb, theirs ccccccc");
+
+    // The file stays valid JSON with our pin so it can be resolved by hand
+    const lockfile = JSON.parse(await readFile(join(tmpDir, "skills.lock"), "utf-8"));
+    expect(lockfile.skills.pdf.ref).toBe(SHA_B);
+  });
+
+  it("requires all three files without --install", async () => {
+    const { stderr, exitCode } = await runCli(["merge-driver", "base"], tmpDir);
+    expect(exitCode).toBe(1);
+    expect(stderr).toContain("Usage: skills-lock merge-driver <base> <ours> <theirs>");
+  });
+});
+
+describe("cache", () => {
+  it("ls reports an empty cache", async () => {
+    const cacheDir = join(tmpDir, "cache");
+    const { stdout, exitCode } = await runCli(["cache", "ls"], tmpDir, {
+      SKILLS_LOCK_CACHE_DIR: cacheDir,
+    });
+
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain(`Cache directory: ${cacheDir}`);
+    expect(stdout).toContain("Cache is empty.");
+  });
+
+  it("clean reports nothing to clean on an empty cache", async () => {
+    const { stdout, exitCode } = await runCli(["cache", "clean"], tmpDir, {
+      SKILLS_LOCK_CACHE_DIR: join(tmpDir, "cache"),
+    });
+
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain("Nothing to clean.");
+  });
+});
+
+describe("grouped git operations", () => {
+  let fakeEnv: Record<string, string>;
+  let logFile: string;
+
+  beforeEach(async () => {
+    logFile = join(tmpDir, "skills-cli.log");
+    const binDir = await makeFakeSkillsCliDir(tmpDir, logFile);
+    fakeEnv = {
+      PATH: `${binDir}:${process.env.PATH}`,
+      SKILLS_LOCK_CACHE_DIR: join(tmpDir, "cache"),
+    };
+  });
+
+  it("install checks out a shared (source, ref) once for all its skills", async () => {
+    const { repo, sha } = await makeSourceRepo(join(tmpDir, "source"), ["pdf", "xlsx"]);
+    const project = join(tmpDir, "project");
+    await execa("mkdir", ["-p", project]);
+    await writeFile(
+      join(project, "skills.lock"),
+      JSON.stringify({
+        version: 1,
+        skills: {
+          pdf: { source: repo, path: "skills/pdf", ref: sha },
+          xlsx: { source: repo, path: "skills/xlsx", ref: sha },
+        },
+      }) + "\n"
+    );
+
+    const { stdout, exitCode } = await runCli(["install"], project, fakeEnv);
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain("Installed 2 skill(s).");
+
+    const sources = await loggedAddSources(logFile);
+    expect(sources).toHaveLength(2);
+    const checkouts = new Set(sources.map((src) => src.replace(/\/skills\/[^/]+$/, "")));
+    expect(checkouts.size).toBe(1);
+
+    const meta = JSON.parse(await readFile(join(project, ".agents", "skills", "xlsx", ".skills-lock"), "utf-8"));
+    expect(meta.ref).toBe(sha);
+  });
+
+  it("update resolves a source once and re-pins every skill from it", async () => {
+    const { repo, sha } = await makeSourceRepo(join(tmpDir, "source"), ["pdf", "xlsx"]);
+    const project = join(tmpDir, "project");
+    await execa("mkdir", ["-p", project]);
+    await writeFile(
+      join(project, "skills.lock"),
+      JSON.stringify({
+        version: 1,
+        skills: {
+          pdf: { source: repo, path: "skills/pdf", ref: sha },
+          xlsx: { source: repo, path: "skills/xlsx", ref: sha },
+        },
+      }) + "\n"
+    );
+    await writeFile(join(repo, "skills", "pdf", "SKILL.md"), skillMd("pdf", "# pdf v2\n"));
+    await writeFile(join(repo, "skills", "xlsx", "SKILL.md"), skillMd("xlsx", "# xlsx v2\n"));
+    await execa("git", ["commit", "-q", "-am", "v2"], { cwd: repo });
+    const newSha = (await execa("git", ["rev-parse", "HEAD"], { cwd: repo })).stdout.trim();
+
+    const { stdout, exitCode } = await runCli(["update"], project, fakeEnv);
+    expect(exitCode).toBe(0);
+    expect(stdout.match(/Checking /g)).toHaveLength(1);
+    expect(stdout).toContain("Updated 2 skill(s).");
+
+    const lockfile = JSON.parse(await readFile(join(project, "skills.lock"), "utf-8"));
+    expect(lockfile.skills.pdf.ref).toBe(newSha);
+    expect(lockfile.skills.xlsx.ref).toBe(newSha);
+
+    const sources = await loggedAddSources(logFile);
+    const checkouts = new Set(sources.map((src) => src.replace(/\/skills\/[^/]+$/, "")));
+    expect(checkouts.size).toBe(1);
+  });
+
+  it("update only re-pins skills whose files changed", async () => {
+    const { repo, sha } = await makeSourceRepo(join(tmpDir, "source"), ["pdf", "xlsx"]);
+    const project = join(tmpDir, "project");
+    await execa("mkdir", ["-p", project]);
+    await writeFile(
+      join(project, "skills.lock"),
+      JSON.stringify({
+        version: 1,
+        skills: {
+          pdf: { source: repo, path: "skills/pdf", ref: sha },
+          xlsx: { source: repo, path: "skills/xlsx", ref: sha },
+        },
+      }) + "\n"
+    );
+    await writeFile(join(repo, "skills", "pdf", "SKILL.md"), skillMd("pdf", "# pdf v2\n"));
+    await execa("git", ["commit", "-q", "-am", "pdf v2"], { cwd: repo });
+    const pdfSha = (await execa("git", ["rev-parse", "HEAD"], { cwd: repo })).stdout.trim();
+    await writeFile(join(repo, "README.md"), "# skills\n");
+    await execa("git", ["add", "README.md"], { cwd: repo });
+    await execa("git", ["commit", "-q", "-m", "readme"], { cwd: repo });
+
+    const { stdout, exitCode } = await runCli(["update"], project, fakeEnv);
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain(`pdf — ${sha.slice(0, 7)} → ${pdfSha.slice(0, 7)}`);
+    expect(stdout).toContain("xlsx — already up to date");
+    expect(stdout).toContain("Updated 1 skill(s).");
+
+    // Pinned to the commit that changed pdf, not to the README commit after it
+    const lockfile = JSON.parse(await readFile(join(project, "skills.lock"), "utf-8"));
+    expect(lockfile.skills.pdf.ref).toBe(pdfSha);
+    expect(lockfile.skills.xlsx.ref).toBe(sha);
+    expect(await loggedAddSources(logFile)).toHaveLength(1);
+  });
+
+  it("update prints each skill's upstream commits and changed files", async () => {
+    const { repo, sha } = await makeSourceRepo(join(tmpDir, "source"), ["pdf"]);
+    const project = join(tmpDir, "project");
+    await execa("mkdir", ["-p", project]);
+    const lockfileText = JSON.stringify({ version: 1, skills: { pdf: { source: repo, path: "skills/pdf", ref: sha } } }) + "\n";
+    await writeFile(join(project, "skills.lock"), lockfileText);
+    await writeFile(join(repo, "skills", "pdf", "SKILL.md"), skillMd("pdf", "# pdf v2\nforms\n"));
+    await execa("git", ["commit", "-q", "-am", "Add forms support"], { cwd: repo });
+    const newSha = (await execa("git", ["rev-parse", "HEAD"], { cwd: repo })).stdout.trim();
+
+    const dryRun = await runCli(["update", "--dry-run"], project, fakeEnv);
+    expect(dryRun.exitCode).toBe(0);
+    expect(dryRun.stdout).toContain(`pdf — ${sha.slice(0, 7)} → ${newSha.slice(0, 7)}`);
+    expect(dryRun.stdout).toContain(`      ${newSha.slice(0, 7)} Add forms support`);
+    expect(dryRun.stdout).toContain("      SKILL.md | +2 -1");
+    expect(dryRun.stdout).toContain("1 skill(s) would be updated");
+    // Nothing installed or re-pinned
+    expect(await readFile(join(project, "skills.lock"), "utf-8")).toBe(lockfileText);
+    await expect(readFile(logFile, "utf-8")).rejects.toThrow();
+
+    const { stdout, exitCode } = await runCli(["--json", "update"], project, fakeEnv);
+    expect(exitCode).toBe(0);
+    expect(JSON.parse(stdout).updated[0].changelog).toEqual({
+      commits: [{ sha: newSha, subject: "Add forms support" }],
+      files: [{ path: "SKILL.md", additions: 2, deletions: 1 }],
+    });
+    const lockfile = JSON.parse(await readFile(join(project, "skills.lock"), "utf-8"));
+    expect(lockfile.skills.pdf.ref).toBe(newSha);
+  });
+});
+
+describe("--concurrency", () => {
+  let fakeEnv: Record<string, string>;
+  let logFile: string;
+
+  beforeEach(async () => {
+    logFile = join(tmpDir, "skills-cli.log");
+    const binDir = await makeFakeSkillsCliDir(tmpDir, logFile);
+    fakeEnv = {
+      PATH: `${binDir}:${process.env.PATH}`,
+      SKILLS_LOCK_CACHE_DIR: join(tmpDir, "cache"),
+    };
+  });
+
+  it("install runs skills in parallel and still installs all of them", async () => {
+    const { repo, sha } = await makeSourceRepo(join(tmpDir, "source"), ["pdf", "xlsx", "docx"]);
+    const project = join(tmpDir, "project");
+    await execa("mkdir", ["-p", project]);
+    await writeFile(
+      join(project, "skills.lock"),
+      JSON.stringify({
+        version: 1,
+        skills: {
+          docx: { source: repo, path: "skills/docx", ref: sha },
+          pdf: { source: repo, path: "skills/pdf", ref: sha },
+          xlsx: { source: repo, path: "skills/xlsx", ref: sha },
+        },
+      }) + "\n"
+    );
+
+    const { stdout, exitCode } = await runCli(["install", "--concurrency", "3"], project, fakeEnv);
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain("Installed 3 skill(s).");
+    expect(await loggedAddSources(logFile)).toHaveLength(3);
+  });
+
+  it("a failing skill does not stop the others from installing", async () => {
+    const { repo, sha } = await makeSourceRepo(join(tmpDir, "source"), ["pdf"]);
+    const project = join(tmpDir, "project");
+    await execa("mkdir", ["-p", project]);
+    await writeFile(
+      join(project, "skills.lock"),
+      JSON.stringify({
+        version: 1,
+        skills: {
+          broken: { source: repo, path: "skills/broken", ref: sha },
+          pdf: { source: repo, path: "skills/pdf", ref: sha },
+        },
+      }) + "\n"
+    );
+
+    const { stderr, exitCode } = await runCli(["install", "--concurrency", "2"], project, fakeEnv);
+    expect(exitCode).toBe(1);
+    expect(stderr).toContain("failed to install 1 skill(s)");
+    expect(stderr).toContain("- broken:");
+
+    const meta = JSON.parse(await readFile(join(project, ".agents", "skills", "pdf", ".skills-lock"), "utf-8"));
+    expect(meta.ref).toBe(sha);
+  });
+
+  it("rejects a non-positive concurrency", async () => {
+    const { stderr, exitCode } = await runCli(["check", "--concurrency", "0"], tmpDir);
+    expect(exitCode).not.toBe(0);
+    expect(stderr).toContain("Must be a positive integer");
+  });
+});
+
+describe("--json", () => {
+  it("check emits every bucket with refs", async () => {
+    const integrity = `sha256:${"a".repeat(64)}`;
+    const wrongRef = "b".repeat(40);
+    await writeFile(
+      join(tmpDir, "skills.lock"),
+      JSON.stringify({
+        version: 1,
+        skills: {
+          pdf: { source: "https://github.com/anthropics/skills.git", path: "skills/pdf", ref: SHA_A, integrity },
+          xlsx: { source: "https://github.com/anthropics/skills.git", path: "skills/xlsx", ref: SHA_A },
+        },
+      }) + "\n"
+    );
+    const pdfDir = join(tmpDir, ".agents", "skills", "pdf");
+    await execa("mkdir", ["-p", pdfDir, join(tmpDir, ".agents", "skills", "rogue")]);
+    await writeFile(join(pdfDir, ".skills-lock"), JSON.stringify({ ref: wrongRef, integrity }) + "\n");
+
+    const { stdout, exitCode } = await runCli(["check", "--json"], tmpDir);
+    expect(exitCode).toBe(1);
+    const result = JSON.parse(stdout);
+    expect(result.command).toBe("check");
+    expect(result.ok).toBe(false);
+    expect(result.verified).toEqual([]);
+    expect(result.wrongRef).toEqual([{ name: "pdf", have: wrongRef, want: SHA_A }]);
+    expect(result.missing).toEqual([{ name: "xlsx", ref: SHA_A }]);
+    expect(result.modified).toEqual([]);
+    expect(result.unverified).toEqual([]);
+    expect(result.extra).toEqual([{ name: "rogue" }]);
+  });
+
+  it("check reports ok with exit 0 when everything matches", async () => {
+    await writeFile(
+      join(tmpDir, "skills.lock"),
+      JSON.stringify({
+        version: 1,
+        skills: { pdf: { source: "https://github.com/anthropics/skills.git", path: "skills/pdf", ref: SHA_A } },
+      }) + "\n"
+    );
+    const pdfDir = join(tmpDir, ".agents", "skills", "pdf");
+    await execa("mkdir", ["-p", pdfDir]);
+    await writeFile(join(pdfDir, ".skills-lock"), JSON.stringify({ ref: SHA_A, integrity: `sha256:${"a".repeat(64)}` }) + "\n");
+
+    const { stdout, exitCode } = await runCli(["--json", "check"], tmpDir);
+    expect(exitCode).toBe(0);
+    expect(JSON.parse(stdout)).toMatchObject({ command: "check", ok: true, verified: ["pdf"] });
+  });
+
+  it("reports errors as a JSON document", async () => {
+    const { stdout, exitCode } = await runCli(["install", "--json"], tmpDir);
+    expect(exitCode).toBe(1);
+    expect(JSON.parse(stdout)).toEqual({
+      command: "install",
+      error: "No skills.lock found. Run 'skills-lock add' to start.",
+    });
+  });
+
+  it("install emits installed skills and nothing else on stdout", async () => {
+    const logFile = join(tmpDir, "skills-cli.log");
+    const binDir = await makeFakeSkillsCliDir(tmpDir, logFile);
+    const { repo, sha } = await makeSourceRepo(join(tmpDir, "source"), ["pdf"]);
+    const project = join(tmpDir, "project");
+    await execa("mkdir", ["-p", project]);
+    await writeFile(
+      join(project, "skills.lock"),
+      JSON.stringify({ version: 1, skills: { pdf: { source: repo, path: "skills/pdf", ref: sha } } }) + "\n"
+    );
+
+    const { stdout, exitCode } = await runCli(["install", "--json"], project, {
+      PATH: `${binDir}:${process.env.PATH}`,
+      SKILLS_LOCK_CACHE_DIR: join(tmpDir, "cache"),
+    });
+    expect(exitCode).toBe(0);
+    const result = JSON.parse(stdout);
+    expect(result.command).toBe("install");
+    expect(result.installed).toHaveLength(1);
+    expect(result.installed[0]).toMatchObject({ name: "pdf", ref: sha, reason: "missing" });
+    expect(result.installed[0].integrity).toMatch(/^sha256:/);
+    expect(result.alreadyInstalled).toEqual([]);
+    expect(result.failed).toEqual([]);
+  });
+
+  it("cache ls names the subcommand in the result", async () => {
+    const { stdout, exitCode } = await runCli(["cache", "ls", "--json"], tmpDir, {
+      SKILLS_LOCK_CACHE_DIR: join(tmpDir, "cache"),
+    });
+    expect(exitCode).toBe(0);
+    expect(JSON.parse(stdout)).toEqual({ command: "cache ls", cacheDir: join(tmpDir, "cache"), repos: [] });
+  });
+});
+
+describe("--installer native", () => {
+  it("installs, checks and removes skills without the skills CLI", async () => {
+    // makeFakeNpxDir makes any `npx skills` call fail
+    const env = {
+      PATH: `${await makeFakeNpxDir(tmpDir)}:${process.env.PATH}`,
+      SKILLS_LOCK_CACHE_DIR: join(tmpDir, "cache"),
+    };
+    const { repo, sha } = await makeSourceRepo(join(tmpDir, "source"), ["pdf", "xlsx"]);
+    const project = join(tmpDir, "project");
+    await execa("mkdir", ["-p", project]);
+    await writeFile(
+      join(project, "skills.lock"),
+      JSON.stringify({
+        version: 1,
+        skills: {
+          pdf: { source: repo, path: "skills/pdf", ref: sha },
+          xlsx: { source: repo, path: "skills/xlsx", ref: sha },
+        },
+      }) + "\n"
+    );
+
+    const install = await runCli(["install", "--installer", "native"], project, env);
+    expect(install.exitCode).toBe(0);
+    expect(install.stdout).toContain("Installed 2 skill(s).");
+    expect(await readFile(join(project, ".agents", "skills", "xlsx", "SKILL.md"), "utf-8")).toBe(skillMd("xlsx"));
+
+    const check = await runCli(["check"], project, env);
+    expect(check.exitCode).toBe(0);
+
+    const remove = await runCli(["remove", "pdf", "--installer", "native"], project, env);
+    expect(remove.exitCode).toBe(0);
+    await expect(readFile(join(project, ".agents", "skills", "pdf", "SKILL.md"))).rejects.toThrow();
+  });
+
+  it("rejects an unknown installer", async () => {
+    const { stderr, exitCode } = await runCli(["install", "--installer", "pip"], tmpDir);
+    expect(exitCode).not.toBe(0);
+    expect(stderr).toContain("Allowed choices are native, skills-cli");
+  });
+});
+
+describe("skill names", () => {
+  let env: Record<string, string>;
+  let project: string;
+
+  beforeEach(async () => {
+    env = {
+      PATH: `${await makeFakeNpxDir(tmpDir)}:${process.env.PATH}`,
+      SKILLS_LOCK_CACHE_DIR: join(tmpDir, "cache"),
+    };
+    project = join(tmpDir, "project");
+    await execa("mkdir", ["-p", project]);
+  });
+
+  it("adds a second skill with the same name under an alias", async () => {
+    const first = await makeSourceRepo(join(tmpDir, "first"), ["review"]);
+    const second = await makeSourceRepo(join(tmpDir, "second"), ["review"]);
+    await writeFile(join(second.repo, "skills", "review", "SKILL.md"), skillMd("review", "# acme review\n"));
+    await execa("git", ["commit", "-q", "-am", "acme"], { cwd: second.repo });
+
+    expect((await runCli(["add", first.repo, "--skill", "review", "--installer", "native"], project, env)).exitCode).toBe(0);
+    const clash = await runCli(["add", second.repo, "--skill", "review", "--installer", "native"], project, env);
+    expect(clash.stdout).toContain("--as <name>");
+
+    const aliased = await runCli(
+      ["add", second.repo, "--skill", "review", "--as", "acme-review", "--installer", "native"],
+      project,
+      env
+    );
+    expect(aliased.exitCode).toBe(0);
+    expect(aliased.stdout).toContain("Added acme-review to skills.lock");
+
+    const lockfile = JSON.parse(await readFile(join(project, "skills.lock"), "utf-8"));
+    expect(lockfile.skills.review).toMatchObject({ source: first.repo, path: "skills/review" });
+    expect(lockfile.skills["acme-review"]).toMatchObject({ source: second.repo, path: "skills/review" });
+    expect(await readFile(join(project, ".agents", "skills", "acme-review", "SKILL.md"), "utf-8")).toBe(
+      skillMd("review", "# acme review\n")
+    );
+
+    // The alias survives a fresh install
+    await rm(join(project, ".agents"), { recursive: true, force: true });
+    expect((await runCli(["install", "--installer", "native"], project, env)).exitCode).toBe(0);
+    expect((await runCli(["check"], project, env)).exitCode).toBe(0);
+  });
+
+  it("requires --path when a name matches several directories in one source", async () => {
+    const { repo } = await makeSourceRepo(join(tmpDir, "source"), ["pdf"]);
+    for (const dir of ["team-a/review", "team-b/review"]) {
+      await execa("mkdir", ["-p", join(repo, dir)]);
+      await writeFile(join(repo, dir, "SKILL.md"), skillMd("review", `# ${dir}\n`));
+    }
+    await execa("git", ["add", "."], { cwd: repo });
+    await execa("git", ["commit", "-q", "-m", "two reviews"], { cwd: repo });
+
+    const ambiguous = await runCli(["add", repo, "--skill", "review", "--installer", "native"], project, env);
+    expect(ambiguous.exitCode).toBe(1);
+    expect(ambiguous.stderr).toContain("Skill 'review' is ambiguous");
+    expect(ambiguous.stderr).toContain("team-a/review, team-b/review");
+    expect(ambiguous.stderr).toContain("--path");
+
+    const picked = await runCli(["add", repo, "--path", "team-b/review", "--installer", "native"], project, env);
+    expect(picked.exitCode).toBe(0);
+    const lockfile = JSON.parse(await readFile(join(project, "skills.lock"), "utf-8"));
+    expect(lockfile.skills.review.path).toBe("team-b/review");
+    expect(await readFile(join(project, ".agents", "skills", "review", "SKILL.md"), "utf-8")).toBe(
+      skillMd("review", "# team-b/review\n")
+    );
+  });
+
+  it("rejects aliases the skills CLI can't install, and invalid names", async () => {
+    const logFile = join(tmpDir, "skills-cli.log");
+    const fakeEnv = { ...env, PATH: `${await makeFakeSkillsCliDir(tmpDir, logFile)}:${process.env.PATH}` };
+    const { repo } = await makeSourceRepo(join(tmpDir, "source"), ["review"]);
+
+    const viaCli = await runCli(["add", repo, "--skill", "review", "--as", "my-review"], project, fakeEnv);
+    expect(viaCli.exitCode).toBe(1);
+    expect(viaCli.stderr).toContain("the skills CLI can't install a skill under another name");
+
+    const invalid = await runCli(["add", repo, "--skill", "review", "--as", "../review"], project, fakeEnv);
+    expect(invalid.exitCode).not.toBe(0);
+    expect(invalid.stderr).toContain("Must be a skill name");
+  });
+});
+
+describe("skill dependencies", () => {
+  let env: Record<string, string>;
+  let project: string;
+  let repo: string;
+  let sha: string;
+
+  beforeEach(async () => {
+    env = {
+      PATH: `${await makeFakeNpxDir(tmpDir)}:${process.env.PATH}`,
+      SKILLS_LOCK_CACHE_DIR: join(tmpDir, "cache"),
+    };
+    ({ repo } = await makeSourceRepo(join(tmpDir, "source"), ["report", "xlsx", "csv", "pdf"]));
+    const shared = await makeSourceRepo(join(tmpDir, "shared"), ["charts"]);
+    const withDependencies = (name: string, dependencies: string) =>
+      skillMd(name).replace("---\n#", `dependencies:\n${dependencies}---\n#`);
+    await writeFile(
+      join(repo, "skills", "report", "SKILL.md"),
+      withDependencies("report", `  - xlsx\n  - source: ${shared.repo}\n    skill: charts\n`)
+    );
+    await writeFile(join(repo, "skills", "xlsx", "SKILL.md"), withDependencies("xlsx", "  - csv\n"));
+    await execa("git", ["commit", "-q", "-am", "dependencies"], { cwd: repo });
+    sha = (await execa("git", ["rev-parse", "HEAD"], { cwd: repo })).stdout.trim();
+    project = join(tmpDir, "project");
+    await execa("mkdir", ["-p", project]);
+  });
+
+  it("adds a skill's dependencies transitively, with back-references", async () => {
+    const { stdout, exitCode } = await runCli(["add", repo, "--skill", "report", "--installer", "native"], project, env);
+
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain("Added report to skills.lock");
+    expect(stdout).toContain("Added xlsx to skills.lock (required by report)");
+    expect(stdout).toContain("Added csv to skills.lock (required by xlsx)");
+    expect(stdout).toContain("Added charts to skills.lock (required by report)");
+
+    const lockfile = JSON.parse(await readFile(join(project, "skills.lock"), "utf-8"));
+    expect(Object.keys(lockfile.skills).sort()).toEqual(["charts", "csv", "report", "xlsx"]);
+    expect(lockfile.skills.report).not.toHaveProperty("requiredBy");
+    expect(lockfile.skills.xlsx).toMatchObject({ source: repo, path: "skills/xlsx", ref: sha, requiredBy: ["report"] });
+    expect(lockfile.skills.csv.requiredBy).toEqual(["xlsx"]);
+    expect(lockfile.skills.charts).toMatchObject({ source: join(tmpDir, "shared"), requiredBy: ["report"] });
+    expect((await runCli(["check"], project, env)).exitCode).toBe(0);
+
+    // Dependencies install along with everything else
+    await rm(join(project, ".agents"), { recursive: true, force: true });
+    expect((await runCli(["install", "--installer", "native"], project, env)).exitCode).toBe(0);
+    expect((await runCli(["check"], project, env)).exitCode).toBe(0);
+  });
+
+  it("reuses a dependency that is already locked", async () => {
+    await runCli(["add", repo, "--skill", "csv", "--installer", "native"], project, env);
+
+    const { stdout, exitCode } = await runCli(["add", repo, "--skill", "xlsx", "--installer", "native"], project, env);
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain("csv — already in skills.lock");
+    const lockfile = JSON.parse(await readFile(join(project, "skills.lock"), "utf-8"));
+    expect(lockfile.skills.csv.requiredBy).toEqual(["xlsx"]);
+  });
+
+  it("refuses a dependency that clashes with a locked skill of the same name", async () => {
+    const other = await makeSourceRepo(join(tmpDir, "other"), ["csv"]);
+    await runCli(["add", other.repo, "--skill", "csv", "--installer", "native"], project, env);
+
+    const { stderr, exitCode } = await runCli(["add", repo, "--skill", "xlsx", "--installer", "native"], project, env);
+    expect(exitCode).toBe(1);
+    expect(stderr).toContain(`xlsx requires csv from ${repo} (skills/csv), which clashes with csv from ${other.repo}`);
+  });
+
+  it("refuses to remove a required skill unless --recursive", async () => {
+    await runCli(["add", repo, "--skill", "report", "--installer", "native"], project, env);
+
+    const refused = await runCli(["remove", "csv", "--installer", "native"], project, env);
+    expect(refused.exitCode).toBe(1);
+    expect(refused.stderr).toContain("Cannot remove csv: required by xlsx, report. Pass --recursive to remove them too.");
+
+    const removed = await runCli(["remove", "xlsx", "--recursive", "--installer", "native"], project, env);
+    expect(removed.exitCode).toBe(0);
+    expect(removed.stdout).toContain("Removed report");
+    expect(removed.stdout).toContain("Removed xlsx");
+
+    // csv and charts stay, without back-references to the removed skills
+    const lockfile = JSON.parse(await readFile(join(project, "skills.lock"), "utf-8"));
+    expect(Object.keys(lockfile.skills).sort()).toEqual(["charts", "csv"]);
+    expect(lockfile.skills.csv).not.toHaveProperty("requiredBy");
+    expect((await runCli(["check"], project, env)).exitCode).toBe(0);
+  });
+});
+
+describe("policy", () => {
+  let env: Record<string, string>;
+  let project: string;
+  let approved: string;
+  let other: string;
+
+  beforeEach(async () => {
+    env = {
+      PATH: `${await makeFakeNpxDir(tmpDir)}:${process.env.PATH}`,
+      SKILLS_LOCK_CACHE_DIR: join(tmpDir, "cache"),
+    };
+    ({ repo: approved } = await makeSourceRepo(join(tmpDir, "approved", "skills"), ["pdf", "legacy-xlsx"]));
+    ({ repo: other } = await makeSourceRepo(join(tmpDir, "other"), ["review"]));
+    project = join(tmpDir, "project");
+    await execa("mkdir", ["-p", project]);
+    await writeFile(
+      join(project, "skills-policy.json"),
+      JSON.stringify({ allowedSources: [`${tmpDir}/approved/*`], blockedSkills: ["legacy-*"] })
+    );
+  });
+
+  it("refuses to add skills the policy doesn't allow", async () => {
+    const disallowed = await runCli(["add", other, "--skill", "review", "--installer", "native"], project, env);
+    expect(disallowed.exitCode).toBe(1);
+    expect(disallowed.stderr).toContain("1 policy violation(s) in skills-policy.json");
+    expect(disallowed.stderr).toContain(`  - review: source ${other} is not in the policy's allowedSources`);
+    expect(disallowed.stdout).not.toContain("Resolving");
+
+    const json = await runCli(["--json", "add", other, "--skill", "review", "--installer", "native"], project, env);
+    expect(json.exitCode).toBe(1);
+    expect(JSON.parse(json.stdout)).toMatchObject({
+      command: "add",
+      error: `1 policy violation(s) in skills-policy.json:\n  - review: source ${other} is not in the policy's allowedSources`,
+      violations: [{ name: "review", message: `source ${other} is not in the policy's allowedSources` }],
+    });
+
+    // An alias doesn't get around a blocked name
+    const blocked = await runCli(
+      ["add", approved, "--skill", "legacy-xlsx", "--as", "xlsx", "--installer", "native"],
+      project,
+      env
+    );
+    expect(blocked.exitCode).toBe(1);
+    expect(blocked.stderr).toContain("  - xlsx: blocked by the policy ('legacy-*')");
+    await expect(readFile(join(project, "skills.lock"))).rejects.toThrow();
+    await expect(readFile(join(project, ".agents", "skills", "xlsx", "SKILL.md"))).rejects.toThrow();
+
+    expect((await runCli(["add", approved, "--skill", "pdf", "--installer", "native"], project, env)).exitCode).toBe(0);
+  });
+
+  it("refuses to install a lockfile that breaks the policy, and check --policy exits 2", async () => {
+    await writeFile(join(project, "skills-policy.json"), "{}");
+    await runCli(["add", approved, "--skill", "pdf", "--installer", "native"], project, env);
+    await runCli(["add", other, "--skill", "review", "--installer", "native"], project, env);
+    await writeFile(join(project, "skills-policy.json"), JSON.stringify({ allowedSources: [`${tmpDir}/approved/*`] }));
+
+    const install = await runCli(["install", "--force", "--installer", "native"], project, env);
+    expect(install.exitCode).toBe(1);
+    expect(install.stderr).toContain(`  - review: source ${other} is not in the policy's allowedSources`);
+
+    // Without --policy, check only compares what's installed
+    expect((await runCli(["check"], project, env)).exitCode).toBe(0);
+
+    const check = await runCli(["check", "--policy"], project, env);
+    expect(check.exitCode).toBe(2);
+    expect(check.stdout).toContain("Policy violations (skills-policy.json):");
+    expect(check.stdout).toContain(`  - review: source ${other} is not in the policy's allowedSources`);
+
+    const json = await runCli(["--json", "check", "--policy"], project, env);
+    expect(json.exitCode).toBe(2);
+    expect(JSON.parse(json.stdout)).toMatchObject({
+      ok: false,
+      policy: [{ name: "review", message: `source ${other} is not in the policy's allowedSources` }],
+    });
+
+    const strict = join(tmpDir, "strict-policy.json");
+    await writeFile(strict, JSON.stringify({ requiredFields: ["integrity", "ref"] }));
+    expect((await runCli(["check", "--policy", strict], project, env)).exitCode).toBe(0);
+
+    const missing = await runCli(["check", "--policy", join(tmpDir, "nope.json")], project, env);
+    expect(missing.exitCode).toBe(1);
+    expect(missing.stderr).toContain("No policy found at");
+  });
+});
+
+describe("signed commits", () => {
+  let env: Record<string, string>;
+  let project: string;
+  let repo: string;
+  let signers: Record<string, string>;
+
+  /** Commit a change to a skill in the source repo, signed with an SSH key. */
+  async function signedCommit(key: string, message: string): Promise<string> {
+    await writeFile(join(repo, "skills", "pdf", "notes.md"), message);
+    await execa("git", ["add", "."], { cwd: repo });
+    await execa(
+      "git",
+      ["-c", "gpg.format=ssh", "-c", `user.signingkey=${join(tmpDir, key)}`, "commit", "-q", "-S", "-m", message],
+      { cwd: repo }
+    );
+    return (await execa("git", ["rev-parse", "HEAD"], { cwd: repo })).stdout.trim();
+  }
+
+  beforeEach(async () => {
+    env = {
+      PATH: `${await makeFakeNpxDir(tmpDir)}:${process.env.PATH}`,
+      SKILLS_LOCK_CACHE_DIR: join(tmpDir, "cache"),
+    };
+    ({ repo } = await makeSourceRepo(join(tmpDir, "source"), ["pdf"]));
+    project = join(tmpDir, "project");
+    await execa("mkdir", ["-p", project]);
+
+    // Throwaway SSH keys: two trusted maintainers and a stranger
+    signers = {};
+    const allowed: string[] = [];
+    for (const key of ["alice", "bob", "mallory"]) {
+      await execa("ssh-keygen", ["-q", "-t", "ed25519", "-N", "", "-C", key, "-f", join(tmpDir, key)]);
+      signers[key] = (await execa("ssh-keygen", ["-l", "-f", join(tmpDir, `${key}.pub`)])).stdout.split(" ")[1];
+      if (key !== "mallory") allowed.push(`${key}@test.com ${await readFile(join(tmpDir, `${key}.pub`), "utf-8")}`);
+    }
+    await writeFile(join(project, "allowed_signers"), allowed.join(""));
+    await writeFile(
+      join(project, "skills-lock.config.json"),
+      JSON.stringify({ verifySignatures: { allowedSigners: "allowed_signers" } })
+    );
+  });
+
+  it("records the signer on add, and refuses unsigned or untrusted commits", async () => {
+    const unsigned = await runCli(["add", repo, "--skill", "pdf", "--installer", "native"], project, env);
+    expect(unsigned.exitCode).toBe(1);
+    expect(unsigned.stderr).toContain(`is not signed (${repo})`);
+
+    await signedCommit("mallory", "mallory");
+    const untrusted = await runCli(["add", repo, "--skill", "pdf", "--installer", "native"], project, env);
+    expect(untrusted.exitCode).toBe(1);
+    expect(untrusted.stderr).toContain("is not signed by a trusted key");
+    await expect(readFile(join(project, "skills.lock"))).rejects.toThrow();
+
+    const sha = await signedCommit("alice", "alice");
+    const { stdout, exitCode } = await runCli(["add", repo, "--skill", "pdf", "--installer", "native"], project, env);
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain(`signed by ${signers.alice}`);
+    const lockfile = JSON.parse(await readFile(join(project, "skills.lock"), "utf-8"));
+    expect(lockfile.skills.pdf).toMatchObject({ ref: sha, signer: signers.alice });
+  });
+
+  it("refuses to install when the pinned commit's signer changed", async () => {
+    await signedCommit("alice", "alice");
+    await runCli(["add", repo, "--skill", "pdf", "--installer", "native"], project, env);
+    expect((await runCli(["install", "--force", "--installer", "native"], project, env)).exitCode).toBe(0);
+
+    const lockfilePath = join(project, "skills.lock");
+    const lockfile = JSON.parse(await readFile(lockfilePath, "utf-8"));
+    await writeFile(lockfilePath, JSON.stringify({ ...lockfile, skills: { pdf: { ...lockfile.skills.pdf, signer: signers.bob } } }));
+
+    const { stderr, exitCode } = await runCli(["install", "--force", "--installer", "native"], project, env);
+    expect(exitCode).toBe(1);
+    expect(stderr).toContain(`of 'pdf' is signed by ${signers.alice}, but skills.lock expects ${signers.bob}`);
+  });
+
+  it("verifies and records the new signer on update", async () => {
+    await signedCommit("alice", "alice");
+    await runCli(["add", repo, "--skill", "pdf", "--installer", "native"], project, env);
+
+    await signedCommit("mallory", "mallory");
+    const refused = await runCli(["update", "--installer", "native"], project, env);
+    expect(refused.exitCode).toBe(1);
+    expect(refused.stderr).toContain("is not signed by a trusted key");
+
+    const sha = await signedCommit("bob", "bob");
+    const { stdout, exitCode } = await runCli(["update", "--installer", "native"], project, env);
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain(`pdf — now signed by ${signers.bob} (was ${signers.alice})`);
+    const lockfile = JSON.parse(await readFile(join(project, "skills.lock"), "utf-8"));
+    expect(lockfile.skills.pdf).toMatchObject({ ref: sha, signer: signers.bob });
+  });
+
+  it("previews updates of a version 1 lockfile, but refuses to update it until migrated", async () => {
+    const sha = await signedCommit("alice", "alice");
+    await writeFile(
+      join(project, "skills.lock"),
+      JSON.stringify({ version: 1, skills: { pdf: { source: repo, path: "skills/pdf", ref: sha } } }) + "\n"
+    );
+    await signedCommit("bob", "bob");
+
+    const dryRun = await runCli(["update", "--dry-run", "--installer", "native"], project, env);
+    expect(dryRun.exitCode).toBe(0);
+    expect(dryRun.stderr).toContain("Recording commit signers needs lockfile version 2");
+    const json = await runCli(["--json", "update", "--dry-run", "--installer", "native"], project, env);
+    expect(JSON.parse(json.stdout)).toMatchObject({ dryRun: true, needsMigration: true, updated: [{ name: "pdf", from: sha }] });
+
+    const update = await runCli(["update", "--installer", "native"], project, env);
+    expect(update.exitCode).toBe(1);
+    expect(update.stderr).toContain("Recording commit signers needs lockfile version 2 — run 'skills-lock migrate' first");
+  });
+});
+
+describe("installer from skills-lock.config.json", () => {
+  it("installs through a custom installer module", async () => {
+    const env = {
+      PATH: `${await makeFakeNpxDir(tmpDir)}:${process.env.PATH}`,
+      SKILLS_LOCK_CACHE_DIR: join(tmpDir, "cache"),
+    };
+    const { repo, sha } = await makeSourceRepo(join(tmpDir, "source"), ["pdf"]);
+    const project = join(tmpDir, "project");
+    await execa("mkdir", ["-p", project]);
+    await writeFile(
+      join(project, "skills.lock"),
+      JSON.stringify({ version: 1, skills: { pdf: { source: repo, path: "skills/pdf", ref: sha } } }) + "\n"
+    );
+    await writeFile(
+      join(project, "team-installer.mjs"),
+      [
+        'import { cp, rm } from "node:fs/promises";',
+        'import { join } from "node:path";',
+        "export default {",
+        '  name: "team",',
+        '  install: (source, name) => cp(source, join("team-skills", name), { recursive: true }),',
+        '  remove: (name) => rm(join("team-skills", name), { recursive: true, force: true }),',
+        '  locate: (name) => join("team-skills", name),',
+        "};",
+        "",
+      ].join("\n")
+    );
+    await writeFile(
+      join(project, "skills-lock.config.json"),
+      JSON.stringify({ installer: { module: "./team-installer.mjs" } })
+    );
+
+    const { exitCode, stdout } = await runCli(["install"], project, env);
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain("Installed 1 skill(s).");
+    expect(await readFile(join(project, "team-skills", "pdf", "SKILL.md"), "utf-8")).toBe(skillMd("pdf"));
+    const meta = JSON.parse(await readFile(join(project, "team-skills", "pdf", ".skills-lock"), "utf-8"));
+    expect(meta.ref).toBe(sha);
+  });
+
+  it("lets --installer override the config file", async () => {
+    const logFile = join(tmpDir, "skills-cli.log");
+    const env = {
+      PATH: `${await makeFakeSkillsCliDir(tmpDir, logFile)}:${process.env.PATH}`,
+      SKILLS_LOCK_CACHE_DIR: join(tmpDir, "cache"),
+    };
+    const { repo, sha } = await makeSourceRepo(join(tmpDir, "source"), ["pdf"]);
+    const project = join(tmpDir, "project");
+    await execa("mkdir", ["-p", project]);
+    await writeFile(
+      join(project, "skills.lock"),
+      JSON.stringify({ version: 1, skills: { pdf: { source: repo, path: "skills/pdf", ref: sha } } }) + "\n"
+    );
+    await writeFile(join(project, "skills-lock.config.json"), JSON.stringify({ installer: "native" }));
+
+    const { exitCode } = await runCli(["install", "--installer", "skills-cli"], project, env);
+    expect(exitCode).toBe(0);
+    expect(await loggedAddSources(logFile)).toHaveLength(1);
+  });
+
+  it("fails clearly on an invalid config file", async () => {
+    await writeFile(join(tmpDir, "skills.lock"), JSON.stringify({ version: 1, skills: {} }) + "\n");
+    await writeFile(join(tmpDir, "skills-lock.config.json"), JSON.stringify({ installer: "pip" }));
+
+    const { stderr, exitCode } = await runCli(["install"], tmpDir);
+    expect(exitCode).toBe(1);
+    expect(stderr).toContain("skills-lock.config.json has invalid 'installer'");
+  });
+});
+
+describe("target directories", () => {
+  it("installs into every configured agent directory and checks each one", async () => {
+    const env = {
+      PATH: `${await makeFakeNpxDir(tmpDir)}:${process.env.PATH}`,
+      SKILLS_LOCK_CACHE_DIR: join(tmpDir, "cache"),
+    };
+    const { repo, sha } = await makeSourceRepo(join(tmpDir, "source"), ["pdf"]);
+    const project = join(tmpDir, "project");
+    await execa("mkdir", ["-p", project]);
+    await writeFile(
+      join(project, "skills.lock"),
+      JSON.stringify({ version: 1, skills: { pdf: { source: repo, path: "skills/pdf", ref: sha } } }) + "\n"
+    );
+    await writeFile(
+      join(project, "skills-lock.config.json"),
+      JSON.stringify({ installer: "native", targets: [".agents/skills", ".claude/skills", ".cursor/skills"] })
+    );
+
+    const install = await runCli(["install"], project, env);
+    expect(install.exitCode).toBe(0);
+    expect(install.stdout).toContain("pdf — linked into .cursor/skills");
+    expect(await readFile(join(project, ".cursor", "skills", "pdf", "SKILL.md"), "utf-8")).toBe(skillMd("pdf"));
+    expect((await runCli(["check"], project, env)).exitCode).toBe(0);
+
+    // Cursor loses the skill: check names the target, install restores only the link
+    await rm(join(project, ".cursor", "skills", "pdf"));
+    const check = await runCli(["check"], project, env);
+    expect(check.exitCode).toBe(1);
+    expect(check.stdout).toContain("  - pdf (.cursor/skills)");
+
+    const reinstall = await runCli(["install", "--json"], project, env);
+    expect(reinstall.exitCode).toBe(0);
+    const result = JSON.parse(reinstall.stdout);
+    expect(result.installed).toEqual([]);
+    expect(result.alreadyInstalled).toEqual(["pdf"]);
+    expect(result.linked).toEqual([{ name: "pdf", target: ".cursor/skills" }]);
+
+    const remove = await runCli(["remove", "pdf"], project, env);
+    expect(remove.exitCode).toBe(0);
+    await expect(readFile(join(project, ".claude", "skills", "pdf", "SKILL.md"))).rejects.toThrow();
+  });
+});
+
+describe("file: sources", () => {
+  it("adds, checks, installs and updates a local skill without cloning", async () => {
+    const env = {
+      PATH: `${await makeFakeNpxDir(tmpDir)}:${process.env.PATH}`,
+      SKILLS_LOCK_CACHE_DIR: join(tmpDir, "cache"),
+    };
+    const project = join(tmpDir, "project");
+    await execa("mkdir", ["-p", join(project, "internal-skills", "review")]);
+    await writeFile(join(project, "internal-skills", "review", "SKILL.md"), skillMd("review", "# review\n"));
+
+    const add = await runCli(["add", "file:./internal-skills", "--skill", "review", "--installer", "native"], project, env);
+    expect(add.exitCode).toBe(0);
+    expect(add.stdout).toContain("Added review to skills.lock (ref: local)");
+    const entry = JSON.parse(await readFile(join(project, "skills.lock"), "utf-8")).skills.review;
+    expect(entry).toEqual({ source: "file:./internal-skills", path: "review", integrity: expect.stringMatching(/^sha256:/) });
+    expect((await runCli(["check"], project, env)).exitCode).toBe(0);
+
+    // Editing the source breaks the pin until the skill is updated
+    await writeFile(join(project, "internal-skills", "review", "SKILL.md"), skillMd("review", "# review v2\n"));
+    const install = await runCli(["install", "--force", "--installer", "native"], project, env);
+    expect(install.exitCode).toBe(1);
+    expect(install.stderr).toContain("Integrity check failed for 'review'");
+
+    const update = await runCli(["update", "--installer", "native"], project, env);
+    expect(update.exitCode).toBe(0);
+    expect(update.stdout).toContain("review — content changed at file:./internal-skills");
+    const updated = JSON.parse(await readFile(join(project, "skills.lock"), "utf-8")).skills.review;
+    expect(updated.integrity).not.toBe(entry.integrity);
+    expect(await readFile(join(project, ".agents", "skills", "review", "SKILL.md"), "utf-8")).toBe(
+      skillMd("review", "# review v2\n")
+    );
+    expect((await runCli(["check"], project, env)).exitCode).toBe(0);
+    expect((await runCli(["update", "--installer", "native"], project, env)).stdout).toContain("Everything up to date.");
+  });
+
+  it("pins a local skill to the commit of the containing git repo", async () => {
+    const { repo, sha } = await makeSourceRepo(join(tmpDir, "monorepo"), ["review"]);
+    const env = { PATH: `${await makeFakeNpxDir(tmpDir)}:${process.env.PATH}` };
+
+    const add = await runCli(["add", "file:./skills", "--skill", "review", "--installer", "native"], repo, env);
+    expect(add.exitCode).toBe(0);
+    const entry = JSON.parse(await readFile(join(repo, "skills.lock"), "utf-8")).skills.review;
+    expect(entry.ref).toBe(sha);
+    expect(entry.source).toBe("file:./skills");
+  });
+
+  it("installs a file:// URL as a git source, at the pinned commit", async () => {
+    const env = {
+      PATH: `${await makeFakeNpxDir(tmpDir)}:${process.env.PATH}`,
+      SKILLS_LOCK_CACHE_DIR: join(tmpDir, "cache"),
+    };
+    const { repo, sha } = await makeSourceRepo(join(tmpDir, "source"), ["pdf"]);
+    const project = join(tmpDir, "project");
+    await execa("mkdir", ["-p", project]);
+    await writeFile(
+      join(project, "skills.lock"),
+      JSON.stringify({ version: 1, skills: { pdf: { source: pathToFileURL(repo).href, path: "skills/pdf", ref: sha } } }) + "\n"
+    );
+    // Uncommitted changes in the repo's working tree are not part of the pin
+    await writeFile(join(repo, "skills", "pdf", "SKILL.md"), skillMd("pdf", "# uncommitted\n"));
+
+    const install = await runCli(["install", "--installer", "native"], project, env);
+    expect(install.stderr).toBe("");
+    expect(install.exitCode).toBe(0);
+    expect(await readFile(join(project, ".agents", "skills", "pdf", "SKILL.md"), "utf-8")).toBe(skillMd("pdf"));
+  });
+
+  it("stores a global local source relative to the home directory, so install works from anywhere", async () => {
+    const home = join(tmpDir, "home");
+    const configDir = join(tmpDir, "config");
+    const env = {
+      PATH: `${await makeFakeNpxDir(tmpDir)}:${process.env.PATH}`,
+      HOME: home,
+      SKILLS_LOCK_CONFIG_DIR: configDir,
+    };
+    const project = join(home, "project");
+    await execa("mkdir", ["-p", join(project, "internal-skills", "review")]);
+    await writeFile(join(project, "internal-skills", "review", "SKILL.md"), skillMd("review"));
+
+    const add = await runCli(
+      ["--global", "add", "file:./internal-skills", "--skill", "review", "--installer", "native"],
+      project,
+      env
+    );
+    expect(add.exitCode).toBe(0);
+    const entry = JSON.parse(await readFile(join(configDir, "skills.lock"), "utf-8")).skills.review;
+    expect(entry.source).toBe("file:./project/internal-skills");
+
+    const install = await runCli(["--global", "install", "--force", "--installer", "native"], tmpDir, env);
+    expect(install.stderr).toBe("");
+    expect(install.exitCode).toBe(0);
+    expect((await runCli(["--global", "outdated"], tmpDir, env)).stdout).toContain("up to date");
+  });
+});
+
+describe("archive sources", () => {
+  it("adds a downloaded archive pinned by its hash and re-pins it on update", async () => {
+    const env = {
+      PATH: `${await makeFakeNpxDir(tmpDir)}:${process.env.PATH}`,
+      SKILLS_LOCK_CACHE_DIR: join(tmpDir, "cache"),
+    };
+    const releases = join(tmpDir, "releases");
+    const pack = async (content: string) => {
+      await execa("mkdir", ["-p", join(tmpDir, "pkg", "foo"), releases]);
+      await writeFile(join(tmpDir, "pkg", "foo", "SKILL.md"), skillMd("foo", content));
+      await execa("tar", ["-czf", join(releases, "foo.tgz"), "-C", join(tmpDir, "pkg"), "foo"]);
+    };
+    await pack("# foo\n");
+
+    const server = createServer(async (req, res) => {
+      try {
+        res.end(await readFile(join(releases, req.url ?? "/")));
+      } catch {
+        res.statusCode = 404;
+        res.end();
+      }
+    });
+    await new Promise<void>((done) => server.listen(0, "127.0.0.1", done));
+    const source = `http://127.0.0.1:${(server.address() as { port: number }).port}/foo.tgz`;
+
+    try {
+      const add = await runCli(["add", source, "--skill", "foo", "--installer", "native"], tmpDir, env);
+      expect(add.exitCode).toBe(0);
+      const entry = JSON.parse(await readFile(join(tmpDir, "skills.lock"), "utf-8")).skills.foo;
+      expect(entry).toEqual({
+        source,
+        path: "foo",
+        archive: expect.stringMatching(/^sha256:[0-9a-f]{64}$/),
+        integrity: expect.stringMatching(/^sha256:/),
+      });
+      expect(await readFile(join(tmpDir, ".agents", "skills", "foo", "SKILL.md"), "utf-8")).toBe(skillMd("foo"));
+      expect((await runCli(["check"], tmpDir, env)).exitCode).toBe(0);
+      expect((await runCli(["install", "--force", "--installer", "native"], tmpDir, env)).exitCode).toBe(0);
+
+      // A re-published archive no longer matches the pin
+      await pack("# foo v2\n");
+      const install = await runCli(["install", "--force", "--installer", "native"], tmpDir, env);
+      expect(install.exitCode).toBe(1);
+      expect(install.stderr).toContain(`Archive hash mismatch for ${source}`);
+
+      const offline = await runCli(["install", "--offline", "--force", "--installer", "native"], tmpDir, env);
+      expect(offline.exitCode).toBe(1);
+      expect(offline.stderr).toContain(`  - foo (${source})`);
+
+      const dryRun = await runCli(["--json", "update", "--dry-run", "--installer", "native"], tmpDir, env);
+      const [preview] = JSON.parse(dryRun.stdout).updated;
+      expect(preview).toMatchObject({ name: "foo", from: entry.archive, to: expect.stringMatching(/^sha256:/) });
+      expect(preview.to).not.toBe(entry.archive);
+
+      const update = await runCli(["update", "--installer", "native"], tmpDir, env);
+      expect(update.exitCode).toBe(0);
+      expect(update.stdout).toContain(`foo — archive changed at ${source}`);
+      const updated = JSON.parse(await readFile(join(tmpDir, "skills.lock"), "utf-8")).skills.foo;
+      expect(updated.archive).toBe(preview.to);
+      expect(await readFile(join(tmpDir, ".agents", "skills", "foo", "SKILL.md"), "utf-8")).toBe(
+        skillMd("foo", "# foo v2\n")
+      );
+    } finally {
+      server.close();
+    }
+  });
+});
+
+describe("--global", () => {
+  it("installs user-level skills under the home directory with the lockfile in the config dir", async () => {
+    const home = join(tmpDir, "home");
+    const configDir = join(tmpDir, "config");
+    const env = {
+      PATH: `${await makeFakeNpxDir(tmpDir)}:${process.env.PATH}`,
+      SKILLS_LOCK_CACHE_DIR: join(tmpDir, "cache"),
+      HOME: home,
+      SKILLS_LOCK_CONFIG_DIR: configDir,
+    };
+    const { repo, sha } = await makeSourceRepo(join(tmpDir, "source"), ["pdf"]);
+    const project = join(tmpDir, "project");
+    await execa("mkdir", ["-p", project, join(home, ".claude")]);
+
+    const add = await runCli(["--global", "add", repo, "--skill", "pdf", "--installer", "native"], project, env);
+    expect(add.exitCode).toBe(0);
+    expect(await readFile(join(home, ".agents", "skills", "pdf", "SKILL.md"), "utf-8")).toBe(skillMd("pdf"));
+    expect(await readFile(join(home, ".claude", "skills", "pdf", "SKILL.md"), "utf-8")).toBe(skillMd("pdf"));
+    const lockfile = JSON.parse(await readFile(join(configDir, "skills.lock"), "utf-8"));
+    expect(lockfile.skills.pdf.ref).toBe(sha);
+    await expect(readFile(join(project, "skills.lock"))).rejects.toThrow();
+
+    expect((await runCli(["--global", "check"], project, env)).exitCode).toBe(0);
+
+    const remove = await runCli(["--global", "remove", "pdf", "--installer", "native"], project, env);
+    expect(remove.exitCode).toBe(0);
+    await expect(readFile(join(home, ".agents", "skills", "pdf", "SKILL.md"))).rejects.toThrow();
+  });
+
+  it("loads a custom installer module relative to the global config", async () => {
+    const configDir = join(tmpDir, "config");
+    const env = {
+      PATH: `${await makeFakeNpxDir(tmpDir)}:${process.env.PATH}`,
+      SKILLS_LOCK_CACHE_DIR: join(tmpDir, "cache"),
+      HOME: join(tmpDir, "home"),
+      SKILLS_LOCK_CONFIG_DIR: configDir,
+    };
+    const { repo, sha } = await makeSourceRepo(join(tmpDir, "source"), ["pdf"]);
+    const project = join(tmpDir, "project");
+    const teamSkills = join(tmpDir, "team-skills");
+    await execa("mkdir", ["-p", project, configDir]);
+    await writeFile(
+      join(configDir, "skills.lock"),
+      JSON.stringify({ version: 1, skills: { pdf: { source: repo, path: "skills/pdf", ref: sha } } }) + "\n"
+    );
+    await writeFile(
+      join(configDir, "team-installer.mjs"),
+      [
+        'import { cp, rm } from "node:fs/promises";',
+        'import { join } from "node:path";',
+        "export default {",
+        '  name: "team",',
+        `  install: (source, name) => cp(source, join(${JSON.stringify(teamSkills)}, name), { recursive: true }),`,
+        `  remove: (name) => rm(join(${JSON.stringify(teamSkills)}, name), { recursive: true, force: true }),`,
+        `  locate: (name) => join(${JSON.stringify(teamSkills)}, name),`,
+        "};",
+        "",
+      ].join("\n")
+    );
+    await writeFile(join(configDir, "skills-lock.config.json"), JSON.stringify({ installer: { module: "./team-installer.mjs" } }));
+
+    const { exitCode, stderr } = await runCli(["--global", "install"], project, env);
+    expect(stderr).toBe("");
+    expect(exitCode).toBe(0);
+    expect(await readFile(join(teamSkills, "pdf", "SKILL.md"), "utf-8")).toBe(skillMd("pdf"));
+  });
+
+  it("warns when a project skill shadows a global one at a different ref", async () => {
+    const configDir = join(tmpDir, "config");
+    await execa("mkdir", ["-p", configDir]);
+    await writeFile(
+      join(configDir, "skills.lock"),
+      JSON.stringify({
+        version: 1,
+        skills: {
+          pdf: { source: "owner/repo", path: "skills/pdf", ref: "f".repeat(40) },
+          xlsx: { source: "owner/repo", path: "skills/xlsx", ref: SHA_A },
+        },
+      }) + "\n"
+    );
+    await writeFile(
+      join(tmpDir, "skills.lock"),
+      JSON.stringify({
+        version: 1,
+        skills: {
+          pdf: { source: "owner/repo", path: "skills/pdf", ref: SHA_A },
+          xlsx: { source: "owner/repo", path: "skills/xlsx", ref: SHA_A },
+        },
+      }) + "\n"
+    );
+
+    const { stderr } = await runCli(["check"], tmpDir, { SKILLS_LOCK_CONFIG_DIR: configDir });
+    expect(stderr).toContain("Warning: pdf shadows a global skill at a different ref (project aaaaaaa, global fffffff)");
+    expect(stderr).not.toContain("xlsx");
+
+    const json = await runCli(["--json", "check"], tmpDir, { SKILLS_LOCK_CONFIG_DIR: configDir });
+    expect(JSON.parse(json.stdout).shadowed).toEqual([{ name: "pdf", ref: SHA_A, globalRef: "f".repeat(40) }]);
+  });
+});
+
 describe("init", () => {
   it("is not a recognised command", async () => {
     const { exitCode, stderr, stdout } = await runCli(["init"], tmpDir);
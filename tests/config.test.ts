@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { readConfig, validateConfig, getTargets } from "../src/config.js";
+
+describe("readConfig", () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await mkdtemp(join(tmpdir(), "skills-lock-config-test-"));
+  });
+
+  afterEach(async () => {
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it("returns an empty config when the file doesn't exist", async () => {
+    expect(await readConfig(join(tmpDir, "skills-lock.config.json"))).toEqual({});
+  });
+
+  it("reads an installer setting", async () => {
+    const path = join(tmpDir, "skills-lock.config.json");
+    await writeFile(path, JSON.stringify({ installer: "native" }));
+    expect(await readConfig(path)).toEqual({ installer: "native" });
+  });
+
+  it("throws on invalid JSON", async () => {
+    const path = join(tmpDir, "skills-lock.config.json");
+    await writeFile(path, "{ installer: native");
+    await expect(readConfig(path)).rejects.toThrow(`Invalid ${path}`);
+  });
+});
+
+describe("validateConfig", () => {
+  it("accepts built-in installers, command templates and modules", () => {
+    expect(() => validateConfig({})).not.toThrow();
+    expect(() => validateConfig({ installer: "skills-cli" })).not.toThrow();
+    expect(() => validateConfig({ installer: { install: "a {source}", remove: "b {name}" } })).not.toThrow();
+    expect(() => validateConfig({ installer: { install: "a", remove: "b", dir: "vendor" } })).not.toThrow();
+    expect(() => validateConfig({ installer: { module: "./installer.mjs" } })).not.toThrow();
+  });
+
+  it("rejects non-objects", () => {
+    expect(() => validateConfig([])).toThrow("skills-lock.config.json must be a JSON object");
+    expect(() => validateConfig(null)).toThrow("must be a JSON object");
+  });
+
+  it("rejects unknown installers", () => {
+    expect(() => validateConfig({ installer: "pip" })).toThrow("has invalid 'installer'");
+    expect(() => validateConfig({ installer: { install: "a" } })).toThrow("has invalid 'installer'");
+    expect(() => validateConfig({ installer: { install: "a", remove: "b", dir: 1 } })).toThrow(
+      "has invalid 'installer'"
+    );
+  });
+});
+
+describe("targets", () => {
+  it("defaults to .agents/skills", () => {
+    expect(getTargets({})).toEqual([join(".agents", "skills")]);
+  });
+
+  it("uses the configured target directories", () => {
+    const targets = [".agents/skills", ".claude/skills", ".cursor/skills"];
+    expect(() => validateConfig({ targets })).not.toThrow();
+    expect(getTargets({ targets })).toEqual(targets);
+  });
+
+  it("resolves relative targets under a root, keeping absolute ones", () => {
+    const targets = [".claude/skills", "/opt/skills"];
+    expect(getTargets({ targets }, "/home/me")).toEqual([join("/home/me", ".claude/skills"), "/opt/skills"]);
+  });
+
+  it("rejects an empty or malformed list", () => {
+    expect(() => validateConfig({ targets: [] })).toThrow("has invalid 'targets'");
+    expect(() => validateConfig({ targets: ".claude/skills" })).toThrow("has invalid 'targets'");
+    expect(() => validateConfig({ targets: [""] })).toThrow("has invalid 'targets'");
+  });
+});
+
+describe("verifySignatures", () => {
+  it("accepts an allowed-signers file, a keyring or both", () => {
+    expect(() => validateConfig({ verifySignatures: { allowedSigners: ".skills-lock/allowed_signers" } })).not.toThrow();
+    expect(() => validateConfig({ verifySignatures: { keyring: "keys.gpg", allowedSigners: "signers" } })).not.toThrow();
+  });
+
+  it("rejects anything else", () => {
+    for (const verifySignatures of [true, {}, { keyring: 1 }, { allowedSigners: "a", trust: "all" }]) {
+      expect(() => validateConfig({ verifySignatures })).toThrow("has invalid 'verifySignatures'");
+    }
+  });
+});
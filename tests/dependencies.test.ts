@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, writeFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { findDependents, readDependencies, removeFromLockfile } from "../src/dependencies.js";
+import type { Lockfile, SkillEntry } from "../src/types.js";
+
+const SHA_A = "a".repeat(40);
+
+function entry(requiredBy?: string[]): SkillEntry {
+  return { source: "https://github.com/acme/skills.git", path: "skills/x", ref: SHA_A, ...(requiredBy ? { requiredBy } : {}) };
+}
+
+describe("readDependencies", () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await mkdtemp(join(tmpdir(), "skills-lock-deps-test-"));
+  });
+
+  afterEach(async () => {
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it("reads skill names and mappings from the frontmatter", async () => {
+    await writeFile(
+      join(tmpDir, "SKILL.md"),
+      [
+        "---",
+        "name: report",
+        "description: Write reports.",
+        "dependencies:",
+        "  - xlsx",
+        "  - source: acme/shared-skills",
+        "    skill: charts",
+        "  - path: skills/team-b/review",
+        "---",
+        "# report",
+      ].join("\n")
+    );
+
+    expect(await readDependencies(tmpDir)).toEqual([
+      { skill: "xlsx" },
+      { source: "acme/shared-skills", skill: "charts" },
+      { path: "skills/team-b/review" },
+    ]);
+  });
+
+  it("returns nothing without frontmatter or dependencies", async () => {
+    await writeFile(join(tmpDir, "SKILL.md"), "# report\n");
+    expect(await readDependencies(tmpDir)).toEqual([]);
+
+    await writeFile(join(tmpDir, "SKILL.md"), "---\nname: report\ndescription: x\n---\n");
+    expect(await readDependencies(tmpDir)).toEqual([]);
+  });
+
+  it("rejects a malformed dependencies list", async () => {
+    for (const dependencies of ["xlsx", "\n  - 1", "\n  - source: acme/skills", "\n  - skill: a\n    track: main"]) {
+      await writeFile(join(tmpDir, "SKILL.md"), `---\nname: report\ndependencies: ${dependencies}\n---\n`);
+      await expect(readDependencies(tmpDir)).rejects.toThrow(
+        `Cannot read dependencies from ${tmpDir}: 'dependencies' must be a list`
+      );
+    }
+  });
+});
+
+describe("findDependents", () => {
+  it("follows requiredBy transitively", () => {
+    const lockfile: Lockfile = {
+      version: 2,
+      skills: { csv: entry(["xlsx"]), xlsx: entry(["report", "budget"]), report: entry(), budget: entry(), pdf: entry() },
+    };
+
+    expect(findDependents(lockfile, "csv")).toEqual(["xlsx", "report", "budget"]);
+    expect(findDependents(lockfile, "report")).toEqual([]);
+  });
+
+  it("ignores cycles and dangling references", () => {
+    const lockfile: Lockfile = { version: 2, skills: { a: entry(["b", "gone"]), b: entry(["a"]) } };
+
+    expect(findDependents(lockfile, "a")).toEqual(["b"]);
+  });
+});
+
+describe("removeFromLockfile", () => {
+  it("removes skills and the back-references to them", () => {
+    const lockfile: Lockfile = {
+      version: 2,
+      skills: { xlsx: entry(["report", "budget"]), pdf: entry(["report"]), report: entry(), budget: entry() },
+    };
+
+    removeFromLockfile(lockfile, ["report"]);
+
+    expect(Object.keys(lockfile.skills)).toEqual(["xlsx", "pdf", "budget"]);
+    expect(lockfile.skills.xlsx.requiredBy).toEqual(["budget"]);
+    expect(lockfile.skills.pdf).not.toHaveProperty("requiredBy");
+  });
+});
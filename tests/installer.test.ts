@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { mkdtemp, mkdir, writeFile, rm, readFile } from "node:fs/promises";
+import { mkdtemp, mkdir, writeFile, rm, readFile, readlink, access } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 
@@ -10,15 +10,34 @@ vi.mock("execa", () => ({
 vi.mock("../src/resolver.js", () => ({
   cloneAtRef: vi.fn().mockResolvedValue("/tmp/skills-lock-mock123"),
   cleanupClone: vi.fn().mockResolvedValue(undefined),
+  findSkills: vi.fn().mockResolvedValue([]),
+  resolveRepo: vi.fn().mockResolvedValue("/tmp/skills-lock-mock123"),
+  sourceKind: (source: string) => (source.startsWith("file:") ? "file" : "git"),
+  resolveLocalSource: vi.fn().mockResolvedValue("/work/internal-skills"),
 }));
 
-import { installSkill, removeSkill, computeSkillHash, writeSkillMetadata, readSkillMetadata } from "../src/installer.js";
+import {
+  installSkill,
+  installSkillFromCheckout,
+  removeSkill,
+  computeSkillHash,
+  writeSkillMetadata,
+  readSkillMetadata,
+  nativeInstaller,
+  commandInstaller,
+  loadInstaller,
+  skillsCliInstaller,
+  linkSkillTargets,
+  unlinkSkillTargets,
+} from "../src/installer.js";
 import { execa } from "execa";
-import { cloneAtRef, cleanupClone } from "../src/resolver.js";
+import { cloneAtRef, cleanupClone, findSkills, resolveLocalSource } from "../src/resolver.js";
 
 const mockedExeca = vi.mocked(execa);
 const mockedCloneAtRef = vi.mocked(cloneAtRef);
 const mockedCleanupClone = vi.mocked(cleanupClone);
+const mockedFindSkills = vi.mocked(findSkills);
+const mockedResolveLocalSource = vi.mocked(resolveLocalSource);
 
 let tmpRepoDir: string | undefined;
 
@@ -50,7 +69,7 @@ describe("installSkill", () => {
     const sha = "a".repeat(40);
     await installSkill("anthropics/skills", "pdf", sha);
 
-    expect(mockedCloneAtRef).toHaveBeenCalledWith("anthropics/skills", sha);
+    expect(mockedCloneAtRef).toHaveBeenCalledWith("anthropics/skills", sha, {});
     expect(mockedExeca).toHaveBeenCalledWith(
       "npx",
       ["skills", "add", "/tmp/skills-lock-mock123", "--skill", "pdf", "--yes"],
@@ -59,6 +78,13 @@ describe("installSkill", () => {
     expect(mockedCleanupClone).toHaveBeenCalledWith("/tmp/skills-lock-mock123");
   });
 
+  it("passes offline mode through to cloneAtRef", async () => {
+    const sha = "e".repeat(40);
+    await installSkill("anthropics/skills", "pdf", sha, undefined, { offline: true });
+
+    expect(mockedCloneAtRef).toHaveBeenCalledWith("anthropics/skills", sha, { offline: true });
+  });
+
   it("uses pinned skillPath inside the cloned repo when provided", async () => {
     const sha = "c".repeat(40);
     tmpRepoDir = await mkdtemp(join(tmpdir(), "skills-lock-installer-"));
@@ -69,6 +95,8 @@ describe("installSkill", () => {
 
     await installSkill("anthropics/skills", "pdf", sha, "document-skills/pdf");
 
+    // Only the skill's directory is checked out
+    expect(mockedCloneAtRef).toHaveBeenCalledWith("anthropics/skills", sha, { paths: ["document-skills/pdf"] });
     expect(mockedExeca).toHaveBeenCalledWith(
       "npx",
       ["skills", "add", skillDir, "--skill", "pdf", "--yes"],
@@ -120,6 +148,61 @@ describe("installSkill", () => {
       { stdio: "inherit" }
     );
   });
+
+  it("installs a file: source from its directory without cloning", async () => {
+    tmpRepoDir = await mkdtemp(join(tmpdir(), "skills-lock-installer-"));
+    await mkdir(join(tmpRepoDir, "review"));
+    await writeFile(join(tmpRepoDir, "review", "SKILL.md"), "# Review");
+    mockedResolveLocalSource.mockResolvedValueOnce(tmpRepoDir);
+
+    await installSkill("file:./internal-skills", "review", "a".repeat(40), "review");
+
+    expect(mockedResolveLocalSource).toHaveBeenCalledWith("file:./internal-skills");
+    expect(mockedExeca).toHaveBeenCalledWith(
+      "npx",
+      ["skills", "add", join(tmpRepoDir, "review"), "--skill", "review", "--yes"],
+      { stdio: "inherit" }
+    );
+    expect(mockedCloneAtRef).not.toHaveBeenCalled();
+    expect(mockedCleanupClone).not.toHaveBeenCalled();
+  });
+});
+
+describe("installSkillFromCheckout", () => {
+  it("installs from the skill path inside an existing checkout without cloning", async () => {
+    tmpRepoDir = await mkdtemp(join(tmpdir(), "skills-lock-installer-"));
+    const skillDir = join(tmpRepoDir, "skills", "pdf");
+    await mkdir(skillDir, { recursive: true });
+    await writeFile(join(skillDir, "SKILL.md"), "# PDF");
+
+    await installSkillFromCheckout(tmpRepoDir, "pdf", "skills/pdf");
+
+    expect(mockedExeca).toHaveBeenCalledWith(
+      "npx",
+      ["skills", "add", skillDir, "--skill", "pdf", "--yes"],
+      { stdio: "inherit" }
+    );
+    expect(mockedCloneAtRef).not.toHaveBeenCalled();
+    expect(mockedCleanupClone).not.toHaveBeenCalled();
+  });
+
+  it("fails fast when the skill path has no SKILL.md", async () => {
+    tmpRepoDir = await mkdtemp(join(tmpdir(), "skills-lock-installer-"));
+
+    await expect(installSkillFromCheckout(tmpRepoDir, "pdf", "skills/pdf")).rejects.toThrow();
+    expect(mockedExeca).not.toHaveBeenCalled();
+  });
+
+  it("refuses to install an alias with the skills CLI", async () => {
+    tmpRepoDir = await mkdtemp(join(tmpdir(), "skills-lock-installer-"));
+    await mkdir(join(tmpRepoDir, "skills", "pdf"), { recursive: true });
+    await writeFile(join(tmpRepoDir, "skills", "pdf", "SKILL.md"), "# PDF");
+
+    await expect(installSkillFromCheckout(tmpRepoDir, "acme-pdf", "skills/pdf")).rejects.toThrow(
+      "'acme-pdf' is an alias for skills/pdf"
+    );
+    expect(mockedExeca).not.toHaveBeenCalled();
+  });
 });
 
 describe("removeSkill", () => {
@@ -132,6 +215,239 @@ describe("removeSkill", () => {
       { stdio: "inherit" }
     );
   });
+
+  it("passes --global for user-level skills", async () => {
+    await removeSkill("pdf", { global: true });
+
+    expect(mockedExeca).toHaveBeenCalledWith(
+      "npx",
+      ["skills", "remove", "--skill", "pdf", "--yes", "--global"],
+      { stdio: "inherit" }
+    );
+  });
+});
+
+describe("native installer", () => {
+  let projectDir: string;
+  let originalCwd: string;
+
+  beforeEach(async () => {
+    originalCwd = process.cwd();
+    projectDir = await mkdtemp(join(tmpdir(), "skills-lock-native-"));
+    tmpRepoDir = await mkdtemp(join(tmpdir(), "skills-lock-installer-"));
+    await mkdir(join(tmpRepoDir, ".git"));
+    await mkdir(join(tmpRepoDir, "skills", "pdf", "scripts"), { recursive: true });
+    await writeFile(join(tmpRepoDir, "skills", "pdf", "SKILL.md"), "# PDF");
+    await writeFile(join(tmpRepoDir, "skills", "pdf", "scripts", "fill.py"), "print()");
+    process.chdir(projectDir);
+  });
+
+  afterEach(async () => {
+    process.chdir(originalCwd);
+    await rm(projectDir, { recursive: true, force: true });
+  });
+
+  it("copies the skill into .agents/skills without calling the skills CLI", async () => {
+    await installSkillFromCheckout(tmpRepoDir!, "pdf", "skills/pdf", { installer: nativeInstaller });
+
+    expect(await readFile(join(projectDir, ".agents", "skills", "pdf", "SKILL.md"), "utf-8")).toBe("# PDF");
+    await access(join(projectDir, ".agents", "skills", "pdf", "scripts", "fill.py"));
+    expect(await computeSkillHash(join(projectDir, ".agents", "skills", "pdf"))).toBe(
+      await computeSkillHash(join(tmpRepoDir!, "skills", "pdf"))
+    );
+    expect(mockedExeca).not.toHaveBeenCalled();
+  });
+
+  it("replaces a previous install instead of merging into it", async () => {
+    await mkdir(join(projectDir, ".agents", "skills", "pdf"), { recursive: true });
+    await writeFile(join(projectDir, ".agents", "skills", "pdf", "stale.txt"), "old");
+
+    await installSkillFromCheckout(tmpRepoDir!, "pdf", "skills/pdf", { installer: nativeInstaller });
+
+    await expect(access(join(projectDir, ".agents", "skills", "pdf", "stale.txt"))).rejects.toThrow();
+  });
+
+  it("finds the skill by name when no path is pinned", async () => {
+    mockedFindSkills.mockResolvedValueOnce([{ name: "pdf", source: tmpRepoDir!, path: "skills/pdf", ref: "a".repeat(40) }]);
+
+    await installSkillFromCheckout(tmpRepoDir!, "pdf", undefined, { installer: nativeInstaller });
+
+    await access(join(projectDir, ".agents", "skills", "pdf", "SKILL.md"));
+  });
+
+  it("fails when the skill is not in the checkout", async () => {
+    await expect(
+      installSkillFromCheckout(tmpRepoDir!, "xlsx", undefined, { installer: nativeInstaller })
+    ).rejects.toThrow("Skill 'xlsx' not found in the source repo");
+  });
+
+  it("links the skill into .claude/skills when the project uses Claude", async () => {
+    await mkdir(join(projectDir, ".claude"));
+
+    await installSkillFromCheckout(tmpRepoDir!, "pdf", "skills/pdf", { installer: nativeInstaller });
+
+    const link = join(projectDir, ".claude", "skills", "pdf");
+    expect(await readlink(link)).toBe(join("..", "..", ".agents", "skills", "pdf"));
+    expect(await readFile(join(link, "SKILL.md"), "utf-8")).toBe("# PDF");
+  });
+
+  it("does not create agent directories that aren't in use", async () => {
+    await installSkillFromCheckout(tmpRepoDir!, "pdf", "skills/pdf", { installer: nativeInstaller });
+    await expect(access(join(projectDir, ".claude"))).rejects.toThrow();
+  });
+
+  it("removes the skill and its agent links", async () => {
+    await mkdir(join(projectDir, ".claude"));
+    await installSkillFromCheckout(tmpRepoDir!, "pdf", "skills/pdf", { installer: nativeInstaller });
+
+    await removeSkill("pdf", { installer: nativeInstaller });
+
+    await expect(access(join(projectDir, ".agents", "skills", "pdf"))).rejects.toThrow();
+    await expect(readlink(join(projectDir, ".claude", "skills", "pdf"))).rejects.toThrow();
+    expect(mockedExeca).not.toHaveBeenCalled();
+  });
+
+  it("leaves an agent's own copy of a skill alone on remove", async () => {
+    await mkdir(join(projectDir, ".claude", "skills", "pdf"), { recursive: true });
+    await writeFile(join(projectDir, ".claude", "skills", "pdf", "SKILL.md"), "# Mine");
+
+    await removeSkill("pdf", { installer: nativeInstaller });
+
+    expect(await readFile(join(projectDir, ".claude", "skills", "pdf", "SKILL.md"), "utf-8")).toBe("# Mine");
+  });
+});
+
+describe("linkSkillTargets / unlinkSkillTargets", () => {
+  let projectDir: string;
+  let originalCwd: string;
+  const skillDir = join(".agents", "skills", "pdf");
+  const targets = [join(".agents", "skills"), join(".claude", "skills"), join(".cursor", "skills")];
+
+  beforeEach(async () => {
+    originalCwd = process.cwd();
+    projectDir = await mkdtemp(join(tmpdir(), "skills-lock-targets-"));
+    process.chdir(projectDir);
+    await mkdir(skillDir, { recursive: true });
+    await writeFile(join(skillDir, "SKILL.md"), "# PDF");
+  });
+
+  afterEach(async () => {
+    process.chdir(originalCwd);
+    await rm(projectDir, { recursive: true, force: true });
+  });
+
+  it("links the skill into every other target and skips its own directory", async () => {
+    expect(await linkSkillTargets("pdf", skillDir, targets)).toEqual([targets[1], targets[2]]);
+
+    expect(await readlink(join(".cursor", "skills", "pdf"))).toBe(join("..", "..", ".agents", "skills", "pdf"));
+    expect(await readFile(join(".claude", "skills", "pdf", "SKILL.md"), "utf-8")).toBe("# PDF");
+  });
+
+  it("leaves correct links alone and replaces stale copies", async () => {
+    await linkSkillTargets("pdf", skillDir, targets);
+    await rm(join(".cursor", "skills", "pdf"));
+    await mkdir(join(".cursor", "skills", "pdf"));
+    await writeFile(join(".cursor", "skills", "pdf", "SKILL.md"), "# old PDF");
+
+    expect(await linkSkillTargets("pdf", skillDir, targets)).toEqual([targets[2]]);
+    expect(await readFile(join(".cursor", "skills", "pdf", "SKILL.md"), "utf-8")).toBe("# PDF");
+  });
+
+  it("removes links but keeps real copies on unlink", async () => {
+    await linkSkillTargets("pdf", skillDir, targets.slice(0, 2));
+    await mkdir(join(".cursor", "skills", "pdf"), { recursive: true });
+
+    await unlinkSkillTargets("pdf", skillDir, targets);
+
+    await expect(readlink(join(".claude", "skills", "pdf"))).rejects.toThrow();
+    await access(join(".cursor", "skills", "pdf"));
+    await access(join(skillDir, "SKILL.md"));
+  });
+});
+
+describe("commandInstaller", () => {
+  const installer = commandInstaller({
+    install: "team-skills add {source} --as {name} --registry=agents/{name}",
+    remove: "team-skills rm {name}",
+  });
+
+  it("runs the install template with placeholders substituted", async () => {
+    await installer.install("/tmp/checkout/skills/my pdf", "pdf", { quiet: true });
+
+    expect(mockedExeca).toHaveBeenCalledWith(
+      "team-skills",
+      ["add", "/tmp/checkout/skills/my pdf", "--as", "pdf", "--registry=agents/pdf"],
+      { stdio: "pipe" }
+    );
+  });
+
+  it("runs the remove template", async () => {
+    await installer.remove("pdf");
+
+    expect(mockedExeca).toHaveBeenCalledWith("team-skills", ["rm", "pdf"], { stdio: "inherit" });
+  });
+
+  it("locates skills in .agents/skills unless told otherwise", () => {
+    expect(installer.locate("pdf")).toBe(join(".agents", "skills", "pdf"));
+    expect(commandInstaller({ install: "x", remove: "y", dir: "vendor/skills" }).locate("pdf")).toBe(
+      join("vendor", "skills", "pdf")
+    );
+  });
+});
+
+describe("loadInstaller", () => {
+  let moduleDir: string;
+
+  beforeEach(async () => {
+    moduleDir = await mkdtemp(join(tmpdir(), "skills-lock-installer-module-"));
+  });
+
+  afterEach(async () => {
+    await rm(moduleDir, { recursive: true, force: true });
+  });
+
+  it("returns the built-in installers by name", async () => {
+    expect(await loadInstaller()).toBe(skillsCliInstaller);
+    expect(await loadInstaller("skills-cli")).toBe(skillsCliInstaller);
+    expect(await loadInstaller("native")).toBe(nativeInstaller);
+  });
+
+  it("builds a command installer from templates", async () => {
+    const installer = await loadInstaller({ install: "a {source}", remove: "b {name}" });
+    expect(installer.name).toBe("command");
+  });
+
+  it("loads the default export of an installer module", async () => {
+    const modulePath = join(moduleDir, "installer.mjs");
+    await writeFile(
+      modulePath,
+      'export default { name: "team", install: async () => {}, remove: async () => {}, locate: (n) => `team/${n}` };\n'
+    );
+
+    const installer = await loadInstaller({ module: modulePath });
+    expect(installer.name).toBe("team");
+    expect(installer.locate("pdf")).toBe("team/pdf");
+  });
+
+  it("resolves a relative module path against the config file's directory, not the cwd", async () => {
+    await writeFile(
+      join(moduleDir, "installer.mjs"),
+      'export default { name: "team", install: async () => {}, remove: async () => {}, locate: (n) => `team/${n}` };\n'
+    );
+
+    expect(process.cwd()).not.toBe(moduleDir);
+    const installer = await loadInstaller({ module: "./installer.mjs" }, moduleDir);
+    expect(installer.name).toBe("team");
+  });
+
+  it("rejects a module that doesn't implement Installer", async () => {
+    const modulePath = join(moduleDir, "broken.mjs");
+    await writeFile(modulePath, "export default { install: async () => {} };\n");
+
+    await expect(loadInstaller({ module: modulePath })).rejects.toThrow(
+      "must export an object with install, remove and locate functions"
+    );
+  });
 });
 
 describe("computeSkillHash", () => {
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, mkdir, writeFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { lintFailed, lintSkill, lintSkillMd, splitFrontmatter } from "../src/lint.js";
+
+const VALID = "---\nname: pdf\ndescription: Fill in PDF forms.\n---\n# pdf\n";
+
+function messages(text: string, dirName?: string): string[] {
+  return lintSkillMd(text, dirName).map(({ severity, message }) => `${severity}: ${message}`);
+}
+
+describe("splitFrontmatter", () => {
+  it("splits the frontmatter from the body", () => {
+    expect(splitFrontmatter(VALID)).toEqual({ frontmatter: "name: pdf\ndescription: Fill in PDF forms.", body: "# pdf\n" });
+  });
+
+  it("handles CRLF line endings and empty frontmatter", () => {
+    expect(splitFrontmatter("---\r\nname: pdf\r\n---\r\nbody")).toEqual({ frontmatter: "name: pdf", body: "body" });
+    expect(splitFrontmatter("---\n---\nbody")).toEqual({ frontmatter: "", body: "body" });
+  });
+
+  it("returns null without a leading --- line", () => {
+    expect(splitFrontmatter("# pdf\n---\nname: pdf\n---\n")).toBeNull();
+  });
+});
+
+describe("lintSkillMd", () => {
+  it("accepts a valid SKILL.md with every optional field", () => {
+    const text = [
+      "---",
+      "name: pdf-forms",
+      "description: Fill in PDF forms.",
+      "license: Apache-2.0",
+      "compatibility: Requires poppler",
+      "metadata:",
+      "  author: acme",
+      "  version: \"1.0\"",
+      "allowed-tools: Bash(pdftk:*) Read",
+      "---",
+      "# PDF forms",
+    ].join("\n");
+    expect(lintSkillMd(text, "pdf-forms")).toEqual([]);
+  });
+
+  it("requires frontmatter", () => {
+    expect(messages("# pdf\n")).toEqual(["error: SKILL.md has no YAML frontmatter (it must start with a '---' line)"]);
+  });
+
+  it("reports invalid YAML and non-mapping frontmatter", () => {
+    expect(messages("---\nname: [pdf\n---\n")[0]).toMatch(/^error: Frontmatter is not valid YAML: /);
+    expect(messages("---\n- pdf\n---\n")).toEqual(["error: Frontmatter must be a YAML mapping of fields"]);
+  });
+
+  it("requires a name and a description", () => {
+    expect(messages("---\nlicense: MIT\n---\n# pdf\n")).toEqual([
+      "error: Missing required field 'name'",
+      "error: Missing required field 'description'",
+    ]);
+  });
+
+  it("checks the name's format, length and directory", () => {
+    expect(messages("---\nname: PDF_Forms\ndescription: x\n---\nbody")).toEqual([
+      "error: 'name' must be lowercase letters, digits and single hyphens, not starting or ending with a hyphen (got 'PDF_Forms')",
+    ]);
+    expect(messages("---\nname: pdf--forms\ndescription: x\n---\nbody")).toHaveLength(1);
+    expect(messages(`---\nname: ${"a".repeat(65)}\ndescription: x\n---\nbody`)).toEqual([
+      "error: 'name' is 65 characters long; the limit is 64",
+    ]);
+    expect(messages(VALID, "docx")).toEqual(["error: 'name' is 'pdf', but must match the skill's directory name 'docx'"]);
+  });
+
+  it("limits the description's length", () => {
+    expect(messages(`---\nname: pdf\ndescription: ${"x".repeat(1025)}\n---\nbody`)).toEqual([
+      "error: 'description' is 1025 characters long; the limit is 1024",
+    ]);
+  });
+
+  it("checks the types of optional fields", () => {
+    const text = "---\nname: pdf\ndescription: x\nlicense: 1\nmetadata:\n  version: 2\nallowed-tools: [Read]\n---\nbody";
+    expect(messages(text)).toEqual([
+      "error: 'license' must be a string",
+      "error: 'metadata' must be a mapping of strings to strings",
+      "error: 'allowed-tools' must be a space-separated string",
+    ]);
+  });
+
+  it("validates the dependencies list", () => {
+    const text = "---\nname: pdf\ndescription: x\ndependencies:\n  - xlsx\n  - source: acme/skills\n    skill: csv\n---\nbody";
+    expect(messages(text)).toEqual([]);
+    expect(messages("---\nname: pdf\ndescription: x\ndependencies: xlsx\n---\nbody")).toEqual([
+      "error: 'dependencies' must be a list of skill names or of mappings with 'source' and 'skill' or 'path'",
+    ]);
+  });
+
+  it("warns about unknown fields and an empty body", () => {
+    expect(lintSkillMd("---\nname: pdf\ndescription: x\nversion: 2\n---\n\n")).toEqual([
+      { severity: "warning", message: "Unknown frontmatter field 'version' (put custom fields under 'metadata')" },
+      { severity: "warning", message: "SKILL.md has no instructions after the frontmatter" },
+    ]);
+  });
+});
+
+describe("lintSkill", () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await mkdtemp(join(tmpdir(), "skills-lock-lint-test-"));
+  });
+
+  afterEach(async () => {
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it("reads SKILL.md from a skill directory", async () => {
+    await mkdir(join(tmpDir, "pdf"));
+    await writeFile(join(tmpDir, "pdf", "SKILL.md"), VALID);
+    expect(await lintSkill(join(tmpDir, "pdf"), "pdf")).toEqual([]);
+  });
+
+  it("reports a missing SKILL.md", async () => {
+    expect(await lintSkill(tmpDir)).toEqual([{ severity: "error", message: "No SKILL.md found" }]);
+  });
+});
+
+describe("lintFailed", () => {
+  it("fails on errors, and on warnings when strict", () => {
+    const warning = { severity: "warning" as const, message: "w" };
+    expect(lintFailed([])).toBe(false);
+    expect(lintFailed([warning])).toBe(false);
+    expect(lintFailed([warning], true)).toBe(true);
+    expect(lintFailed([{ severity: "error", message: "e" }])).toBe(true);
+  });
+});
@@ -6,7 +6,9 @@ import {
   readLockfile,
   writeLockfile,
   validateLockfile,
+  migrateLockfile,
   diffLockfiles,
+  shortRef,
 } from "../src/lockfile.js";
 import type { Lockfile } from "../src/types.js";
 
@@ -84,18 +86,29 @@ describe("lockfile", () => {
       await expect(readLockfile(path)).rejects.toThrow();
     });
 
-    it("throws on wrong version", async () => {
+    it("throws on a version newer than this CLI supports", async () => {
       const path = join(tmpDir, "bad-version.lock");
       writeFileSync(
         path,
-        JSON.stringify({ version: 2, skills: {} })
+        JSON.stringify({ version: 3, skills: {} })
       );
 
       await expect(readLockfile(path)).rejects.toThrow(
-        "Unsupported lockfile version: 2"
+        "Unsupported lockfile version: 3 — this skills-lock supports versions up to 2; upgrade skills-lock to read it"
       );
     });
 
+    it("reads a version 2 lockfile", async () => {
+      const path = join(tmpDir, "v2.lock");
+      const data = {
+        version: 2,
+        skills: { pdf: { ...makeSkillEntry(), notes: "pinned for the Q3 release" } },
+      };
+      writeFileSync(path, JSON.stringify(data));
+
+      expect(await readLockfile(path)).toEqual(data);
+    });
+
     it("throws on missing version", async () => {
       const path = join(tmpDir, "no-version.lock");
       writeFileSync(
@@ -229,9 +242,19 @@ describe("lockfile", () => {
       );
     });
 
-    it("rejects version 2", () => {
-      expect(() => validateLockfile({ version: 2, skills: {} })).toThrow(
-        "Unsupported lockfile version: 2"
+    it("accepts version 2", () => {
+      expect(() => validateLockfile({ version: 2, skills: {} })).not.toThrow();
+    });
+
+    it("rejects version 3 with an upgrade hint", () => {
+      expect(() => validateLockfile({ version: 3, skills: {} })).toThrow(
+        "upgrade skills-lock to read it"
+      );
+    });
+
+    it("rejects fractional versions", () => {
+      expect(() => validateLockfile({ version: 1.5, skills: {} })).toThrow(
+        "Unsupported lockfile version: 1.5"
       );
     });
 
@@ -286,6 +309,57 @@ describe("lockfile", () => {
       ).toThrow("Skill 'pdf' missing or invalid field 'ref'");
     });
 
+    it("accepts a file: source pinned by integrity alone", () => {
+      const entry = { source: "file:./internal-skills", path: "review", integrity: `sha256:${"e".repeat(64)}` };
+      expect(() =>
+        validateLockfile({ version: 1, skills: { review: entry } })
+      ).not.toThrow();
+      expect(() =>
+        validateLockfile({ version: 1, skills: { review: { ...entry, ref: SHA_A } } })
+      ).not.toThrow();
+    });
+
+    it("rejects a file: source without integrity", () => {
+      const entry = { source: "file:./internal-skills", path: "review", ref: SHA_A };
+      expect(() =>
+        validateLockfile({ version: 1, skills: { review: entry } })
+      ).toThrow("Skill 'review' missing or invalid field 'integrity'");
+    });
+
+    it("accepts a file:// git URL pinned by ref, like any git source", () => {
+      const entry = { source: "file:///srv/git/skills.git", path: "skills/pdf", ref: SHA_A };
+      expect(() =>
+        validateLockfile({ version: 1, skills: { pdf: entry } })
+      ).not.toThrow();
+    });
+
+    it("accepts an archive source pinned by its hash", () => {
+      const entry = { source: "https://host/foo.tgz", path: "foo", archive: `sha256:${"e".repeat(64)}` };
+      expect(() =>
+        validateLockfile({ version: 1, skills: { foo: entry } })
+      ).not.toThrow();
+    });
+
+    it("rejects an archive source without a valid archive hash, or with a ref", () => {
+      const entry = { source: "https://host/foo.tgz", path: "foo" };
+      expect(() =>
+        validateLockfile({ version: 1, skills: { foo: entry } })
+      ).toThrow("Skill 'foo' missing or invalid field 'archive'");
+      expect(() =>
+        validateLockfile({ version: 1, skills: { foo: { ...entry, archive: "abc" } } })
+      ).toThrow("Skill 'foo' has invalid archive hash 'abc'");
+      expect(() =>
+        validateLockfile({ version: 1, skills: { foo: { ...entry, archive: `sha256:${"e".repeat(64)}`, ref: SHA_A } } })
+      ).toThrow("archive sources are pinned by 'archive' instead");
+    });
+
+    it("rejects an archive hash on a git source", () => {
+      const entry = { source: "a", path: "b", ref: SHA_A, archive: `sha256:${"e".repeat(64)}` };
+      expect(() =>
+        validateLockfile({ version: 1, skills: { pdf: entry } })
+      ).toThrow("Skill 'pdf' has an 'archive' hash, but its source is not an archive");
+    });
+
     it("rejects a skill with numeric field values", () => {
       const entry = { source: 123, path: "b", ref: SHA_A };
       expect(() =>
@@ -373,6 +447,126 @@ describe("lockfile", () => {
         validateLockfile({ version: 1, skills: { pdf: entry } })
       ).toThrow("invalid integrity");
     });
+
+    // --- track field ---
+
+    it("accepts a skill with a track branch", () => {
+      const entry = { source: "a", path: "b", ref: SHA_A, track: "release" };
+      expect(() =>
+        validateLockfile({ version: 1, skills: { pdf: entry } })
+      ).not.toThrow();
+    });
+
+    it("rejects a non-string track field", () => {
+      const entry = { source: "a", path: "b", ref: SHA_A, track: 1 };
+      expect(() =>
+        validateLockfile({ version: 1, skills: { pdf: entry } })
+      ).toThrow("invalid 'track' field");
+    });
+
+    it("rejects an empty track field", () => {
+      const entry = { source: "a", path: "b", ref: SHA_A, track: "" };
+      expect(() =>
+        validateLockfile({ version: 1, skills: { pdf: entry } })
+      ).toThrow("invalid 'track' field");
+    });
+
+    // --- version 2 fields ---
+
+    it("accepts notes and provenance in a version 2 lockfile", () => {
+      const entry = { ...makeSkillEntry(), notes: "vetted", provenance: { reviewedBy: "security" } };
+      expect(() =>
+        validateLockfile({ version: 2, skills: { pdf: entry } })
+      ).not.toThrow();
+    });
+
+    it("rejects version 2 fields in a version 1 lockfile", () => {
+      const entry = { ...makeSkillEntry(), notes: "vetted" };
+      expect(() =>
+        validateLockfile({ version: 1, skills: { pdf: entry } })
+      ).toThrow("Skill 'pdf' has field 'notes', which needs lockfile version 2 — run 'skills-lock migrate'");
+    });
+
+    it("rejects non-string notes", () => {
+      const entry = { ...makeSkillEntry(), notes: 42 };
+      expect(() =>
+        validateLockfile({ version: 2, skills: { pdf: entry } })
+      ).toThrow("invalid 'notes' field");
+    });
+
+    it("rejects provenance that isn't an object of strings", () => {
+      for (const provenance of ["github", ["a"], { reviewedAt: 1 }]) {
+        const entry = { ...makeSkillEntry(), provenance };
+        expect(() =>
+          validateLockfile({ version: 2, skills: { pdf: entry } })
+        ).toThrow("invalid 'provenance' field");
+      }
+    });
+
+    it("accepts requiredBy as a list of skill names, in version 2 only", () => {
+      const entry = { ...makeSkillEntry(), requiredBy: ["report"] };
+      expect(() =>
+        validateLockfile({ version: 2, skills: { pdf: entry } })
+      ).not.toThrow();
+      expect(() =>
+        validateLockfile({ version: 1, skills: { pdf: entry } })
+      ).toThrow("has field 'requiredBy', which needs lockfile version 2");
+
+      for (const requiredBy of ["report", [""], [1]]) {
+        expect(() =>
+          validateLockfile({ version: 2, skills: { pdf: { ...makeSkillEntry(), requiredBy } } })
+        ).toThrow("invalid 'requiredBy' field");
+      }
+    });
+
+    it("accepts a signer fingerprint in a version 2 lockfile", () => {
+      const entry = { ...makeSkillEntry(), signer: "SHA256:4SdDPklRmsdnHRLIgYoCV0cMX8enK6NJXYgIgonD68U" };
+      expect(() =>
+        validateLockfile({ version: 2, skills: { pdf: entry } })
+      ).not.toThrow();
+      expect(() =>
+        validateLockfile({ version: 2, skills: { pdf: { ...entry, signer: "" } } })
+      ).toThrow("invalid 'signer' field");
+    });
+
+    it("still validates shared fields in a version 2 lockfile", () => {
+      const entry = makeSkillEntry({ ref: "main" });
+      expect(() =>
+        validateLockfile({ version: 2, skills: { pdf: entry } })
+      ).toThrow("must be a full 40-character commit SHA");
+    });
+  });
+
+  // ---------- shortRef ----------
+
+  describe("shortRef", () => {
+    it("abbreviates a SHA and labels a missing ref as local", () => {
+      expect(shortRef(SHA_A)).toBe("aaaaaaa");
+      expect(shortRef(undefined)).toBe("local");
+      expect(shortRef(undefined, `sha256:${"e".repeat(64)}`)).toBe("sha256:eeeeeee");
+    });
+  });
+
+  // ---------- migrateLockfile ----------
+
+  describe("migrateLockfile", () => {
+    it("upgrades a version 1 lockfile to version 2 without losing fields", () => {
+      const v1 = makeLockfile({
+        pdf: { ...makeSkillEntry(), integrity: `sha256:${"e".repeat(64)}`, track: "release" },
+        xlsx: makeSkillEntry({ path: "document-skills/xlsx", ref: SHA_B }),
+      });
+
+      const v2 = migrateLockfile(v1);
+      expect(v2.version).toBe(2);
+      expect(v2.skills).toEqual(v1.skills);
+      expect(() => validateLockfile(v2)).not.toThrow();
+    });
+
+    it("does not modify its input", () => {
+      const v1 = makeLockfile({ pdf: makeSkillEntry() });
+      migrateLockfile(v1);
+      expect(v1.version).toBe(1);
+    });
   });
 
   // ---------- diffLockfiles ----------
@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { simpleGit } from "simple-git";
+import { mergeLockfiles, installMergeDriver, readMergeInput } from "../src/merge.js";
+import type { Lockfile, SkillEntry } from "../src/types.js";
+
+const SHA_A = "a".repeat(40);
+const SHA_B = "b".repeat(40);
+const SHA_C = "c".repeat(40);
+
+function entry(name: string, ref: string, overrides: Partial<SkillEntry> = {}): SkillEntry {
+  return { source: "https://github.com/anthropics/skills.git", path: `skills/${name}`, ref, ...overrides };
+}
+
+function lock(skills: Lockfile["skills"], version: Lockfile["version"] = 1): Lockfile {
+  return { version, skills };
+}
+
+describe("mergeLockfiles", () => {
+  it("combines skills added on different sides", () => {
+    const base = lock({ pdf: entry("pdf", SHA_A) });
+    const ours = lock({ pdf: entry("pdf", SHA_A), xlsx: entry("xlsx", SHA_B) });
+    const theirs = lock({ pdf: entry("pdf", SHA_A), docx: entry("docx", SHA_C) });
+
+    const { merged, conflicts } = mergeLockfiles(base, ours, theirs);
+    expect(conflicts).toEqual([]);
+    expect(Object.keys(merged.skills)).toEqual(["docx", "pdf", "xlsx"]);
+  });
+
+  it("takes a re-pin or removal made on one side only", () => {
+    const base = lock({ pdf: entry("pdf", SHA_A), xlsx: entry("xlsx", SHA_A) });
+    const ours = lock({ pdf: entry("pdf", SHA_A) });
+    const theirs = lock({ pdf: entry("pdf", SHA_B), xlsx: entry("xlsx", SHA_A) });
+
+    const { merged, conflicts } = mergeLockfiles(base, ours, theirs);
+    expect(conflicts).toEqual([]);
+    expect(merged.skills).toEqual({ pdf: entry("pdf", SHA_B) });
+  });
+
+  it("accepts the same change made on both sides", () => {
+    const base = lock({ pdf: entry("pdf", SHA_A) });
+    const both = lock({ pdf: entry("pdf", SHA_B) });
+
+    const { merged, conflicts } = mergeLockfiles(base, both, lock({ ...both.skills }));
+    expect(conflicts).toEqual([]);
+    expect(merged.skills.pdf.ref).toBe(SHA_B);
+  });
+
+  it("ignores key order when comparing entries", () => {
+    const base = lock({ pdf: entry("pdf", SHA_A) });
+    const reordered = { ref: SHA_A, path: "skills/pdf", source: "https://github.com/anthropics/skills.git" };
+    const theirs = lock({ pdf: entry("pdf", SHA_B) });
+
+    const { merged, conflicts } = mergeLockfiles(base, lock({ pdf: reordered }), theirs);
+    expect(conflicts).toEqual([]);
+    expect(merged.skills.pdf.ref).toBe(SHA_B);
+  });
+
+  it("reports a skill pinned to different refs on each side, keeping ours", () => {
+    const base = lock({ pdf: entry("pdf", SHA_A) });
+    const ours = lock({ pdf: entry("pdf", SHA_B) });
+    const theirs = lock({ pdf: entry("pdf", SHA_C) });
+
+    const { merged, conflicts } = mergeLockfiles(base, ours, theirs);
+    expect(merged.skills.pdf.ref).toBe(SHA_B);
+    expect(conflicts).toEqual([
+      { name: "pdf", base: entry("pdf", SHA_A), ours: entry("pdf", SHA_B), theirs: entry("pdf", SHA_C) },
+    ]);
+  });
+
+  it("reports a skill removed on one side and changed on the other", () => {
+    const base = lock({ pdf: entry("pdf", SHA_A) });
+    const ours = lock({});
+    const theirs = lock({ pdf: entry("pdf", SHA_B) });
+
+    const { merged, conflicts } = mergeLockfiles(base, ours, theirs);
+    expect(merged.skills).toEqual({});
+    expect(conflicts).toEqual([{ name: "pdf", base: entry("pdf", SHA_A), theirs: entry("pdf", SHA_B) }]);
+  });
+
+  it("reports the same skill added from different sources", () => {
+    const ours = lock({ pdf: entry("pdf", SHA_A) });
+    const theirs = lock({ pdf: entry("pdf", SHA_A, { source: "https://github.com/acme/skills.git" }) });
+
+    const { conflicts } = mergeLockfiles(lock({}), ours, theirs);
+    expect(conflicts.map((c) => c.name)).toEqual(["pdf"]);
+  });
+
+  it("uses the newer lockfile version of the two sides", () => {
+    const { merged } = mergeLockfiles(lock({}), lock({}, 1), lock({}, 2));
+    expect(merged.version).toBe(2);
+  });
+});
+
+describe("readMergeInput", () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await mkdtemp(join(tmpdir(), "skills-lock-merge-test-"));
+  });
+
+  afterEach(async () => {
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it("treats an empty file as an empty lockfile", async () => {
+    await writeFile(join(tmpDir, "base"), "");
+    expect(await readMergeInput(join(tmpDir, "base"))).toEqual({ version: 1, skills: {} });
+  });
+
+  it("validates non-empty input", async () => {
+    await writeFile(join(tmpDir, "ours"), JSON.stringify({ version: 1, skills: { pdf: { ref: "main" } } }));
+    await expect(readMergeInput(join(tmpDir, "ours"))).rejects.toThrow("missing or invalid field");
+  });
+});
+
+describe("installMergeDriver", () => {
+  let tmpDir: string;
+  let originalCwd: string;
+
+  beforeEach(async () => {
+    originalCwd = process.cwd();
+    tmpDir = await mkdtemp(join(tmpdir(), "skills-lock-merge-test-"));
+    await simpleGit(tmpDir).init();
+    process.chdir(tmpDir);
+  });
+
+  afterEach(async () => {
+    process.chdir(originalCwd);
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it("registers the driver in git config and .gitattributes", async () => {
+    expect(await installMergeDriver()).toBe(true);
+
+    const git = simpleGit(tmpDir);
+    expect((await git.getConfig("merge.skills-lock.driver")).value).toBe(
+      "npx skills-lock merge-driver %O %A %B"
+    );
+    expect(await readFile(join(tmpDir, ".gitattributes"), "utf-8")).toBe("skills.lock merge=skills-lock\n");
+  });
+
+  it("appends to an existing .gitattributes once", async () => {
+    await writeFile(join(tmpDir, ".gitattributes"), "*.png binary");
+
+    expect(await installMergeDriver()).toBe(true);
+    expect(await installMergeDriver()).toBe(false);
+    expect(await readFile(join(tmpDir, ".gitattributes"), "utf-8")).toBe(
+      "*.png binary\nskills.lock merge=skills-lock\n"
+    );
+  });
+});
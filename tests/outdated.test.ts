@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, mkdir, readFile, writeFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { execa } from "execa";
+import { simpleGit } from "simple-git";
+import { findOutdated } from "../src/outdated.js";
+import { hashArchive } from "../src/archive.js";
+import { computeSkillHash } from "../src/installer.js";
+import type { Lockfile } from "../src/types.js";
+
+let tmpDir: string;
+let sourceDir: string;
+let initialSha: string;
+const originalCacheDir = process.env.SKILLS_LOCK_CACHE_DIR;
+
+async function commitFile(path: string, content: string): Promise<string> {
+  const git = simpleGit(sourceDir);
+  await mkdir(join(sourceDir, path, ".."), { recursive: true });
+  await writeFile(join(sourceDir, path), content);
+  await git.add(".");
+  await git.commit(`update ${path}`);
+  return (await git.revparse(["HEAD"])).trim();
+}
+
+function lockfile(skills: Lockfile["skills"]): Lockfile {
+  return { version: 1, skills };
+}
+
+beforeEach(async () => {
+  tmpDir = await mkdtemp(join(tmpdir(), "skills-lock-outdated-test-"));
+  process.env.SKILLS_LOCK_CACHE_DIR = join(tmpDir, "cache");
+  sourceDir = join(tmpDir, "source");
+  await mkdir(sourceDir, { recursive: true });
+  const git = simpleGit(sourceDir);
+  await git.init(["--initial-branch=main"]);
+  await git.addConfig("user.email", "test@test.com");
+  await git.addConfig("user.name", "Test");
+  await commitFile("skills/docx/SKILL.md", "# docx\n");
+  initialSha = await commitFile("skills/pdf/SKILL.md", "# pdf\n");
+});
+
+afterEach(async () => {
+  if (originalCacheDir === undefined) {
+    delete process.env.SKILLS_LOCK_CACHE_DIR;
+  } else {
+    process.env.SKILLS_LOCK_CACHE_DIR = originalCacheDir;
+  }
+  await rm(tmpDir, { recursive: true, force: true });
+});
+
+describe("findOutdated", () => {
+  it("reports newer commits and how many touched each skill's path", async () => {
+    await commitFile("skills/pdf/SKILL.md", "# pdf v2\n");
+    const latestSha = await commitFile("skills/pdf/forms.md", "# forms\n");
+
+    const result = await findOutdated(
+      lockfile({
+        pdf: { source: sourceDir, path: "skills/pdf", ref: initialSha },
+        docx: { source: sourceDir, path: "skills/docx", ref: initialSha },
+      })
+    );
+
+    // docx's files didn't change, so it isn't outdated
+    expect(result.upToDate).toEqual(["docx"]);
+    expect(result.failed).toEqual([]);
+    expect(result.outdated.map(({ name, current, latest, commits }) => ({ name, current, latest, commits }))).toEqual([
+      { name: "pdf", current: initialSha, latest: latestSha, commits: 2 },
+    ]);
+    expect(result.outdated[0].kind).toBe("git");
+    expect(result.outdated[0].currentDate).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+    expect(result.outdated[0].latestDate).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+  });
+
+  it("compares against the last commit that touched the skill's path", async () => {
+    const pdfSha = await commitFile("skills/pdf/SKILL.md", "# pdf v2\n");
+    await commitFile("README.md", "# skills\n");
+
+    const result = await findOutdated(lockfile({ pdf: { source: sourceDir, path: "skills/pdf", ref: initialSha } }));
+    expect(result.outdated).toMatchObject([{ name: "pdf", latest: pdfSha, commits: 1 }]);
+
+    // Changed and then reverted: newer commits, but the same files
+    const reverted = await commitFile("skills/pdf/SKILL.md", "# pdf\n");
+    expect(reverted).not.toBe(initialSha);
+    const again = await findOutdated(lockfile({ pdf: { source: sourceDir, path: "skills/pdf", ref: initialSha } }));
+    expect(again.upToDate).toEqual(["pdf"]);
+  });
+
+  it("reports skills pinned to the latest commit as up to date", async () => {
+    const result = await findOutdated(lockfile({ pdf: { source: sourceDir, path: "skills/pdf", ref: initialSha } }));
+
+    expect(result).toEqual({ outdated: [], upToDate: ["pdf"], failed: [] });
+  });
+
+  it("compares against the tracked branch", async () => {
+    const git = simpleGit(sourceDir);
+    await git.checkoutLocalBranch("next");
+    const nextSha = await commitFile("skills/pdf/SKILL.md", "# pdf next\n");
+    await git.checkout("main");
+
+    const result = await findOutdated(
+      lockfile({
+        pdf: { source: sourceDir, path: "skills/pdf", ref: initialSha, track: "next" },
+        docx: { source: sourceDir, path: "skills/docx", ref: initialSha },
+      })
+    );
+
+    expect(result.upToDate).toEqual(["docx"]);
+    expect(result.outdated).toMatchObject([{ name: "pdf", latest: nextSha, commits: 1 }]);
+  });
+
+  it("reports a missing tracked branch as a failure", async () => {
+    const result = await findOutdated(
+      lockfile({ pdf: { source: sourceDir, path: "skills/pdf", ref: initialSha, track: "nope" } })
+    );
+
+    expect(result.outdated).toEqual([]);
+    expect(result.failed).toEqual([{ name: "pdf", error: `Branch or tag 'nope' not found in ${sourceDir}` }]);
+  });
+
+  it("compares local sources by content", async () => {
+    const skillDir = join(sourceDir, "skills", "pdf");
+    const integrity = await computeSkillHash(skillDir);
+    const locked = lockfile({ pdf: { source: `file:${sourceDir}`, path: "skills/pdf", integrity } });
+
+    // A commit elsewhere in the repo isn't an update
+    await commitFile("skills/docx/SKILL.md", "# docx v2\n");
+    expect((await findOutdated(locked)).upToDate).toEqual(["pdf"]);
+
+    await writeFile(join(skillDir, "SKILL.md"), "# pdf, edited\n");
+    expect((await findOutdated(locked)).outdated).toMatchObject([{ name: "pdf", kind: "file" }]);
+  });
+
+  it("compares archive sources by hash", async () => {
+    const archivePath = join(tmpDir, "skills.tgz");
+    await execa("tar", ["-czf", archivePath, "-C", sourceDir, "skills"]);
+    const archive = hashArchive(await readFile(archivePath));
+    const locked = lockfile({ pdf: { source: archivePath, path: "skills/pdf", archive, integrity: "sha256-x" } });
+
+    expect((await findOutdated(locked)).upToDate).toEqual(["pdf"]);
+
+    await commitFile("skills/pdf/SKILL.md", "# pdf v2\n");
+    await execa("tar", ["-czf", archivePath, "-C", sourceDir, "skills"]);
+    const { outdated } = await findOutdated(locked);
+    expect(outdated).toMatchObject([{ name: "pdf", kind: "archive", current: archive }]);
+    expect(outdated[0].latest).not.toBe(archive);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { checkPolicy, findViolations, matchesPattern, readPolicy, validatePolicy } from "../src/policy.js";
+import type { SkillEntry } from "../src/types.js";
+
+const SHA_A = "a".repeat(40);
+const INTEGRITY = `sha256:${"a".repeat(64)}`;
+
+function entry(overrides: Partial<SkillEntry> = {}): SkillEntry {
+  return { source: "https://github.com/acme/skills.git", path: "skills/pdf", ref: SHA_A, integrity: INTEGRITY, ...overrides };
+}
+
+describe("readPolicy", () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await mkdtemp(join(tmpdir(), "skills-lock-policy-test-"));
+  });
+
+  afterEach(async () => {
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it("returns null when the file doesn't exist", async () => {
+    expect(await readPolicy(join(tmpDir, "skills-policy.json"))).toBeNull();
+  });
+
+  it("reads a policy", async () => {
+    const path = join(tmpDir, "skills-policy.json");
+    const policy = { allowedSources: ["https://github.com/acme/*"], blockedSkills: ["legacy-*"], requiredFields: ["integrity"] };
+    await writeFile(path, JSON.stringify(policy));
+    expect(await readPolicy(path)).toEqual(policy);
+  });
+
+  it("throws on invalid JSON", async () => {
+    const path = join(tmpDir, "skills-policy.json");
+    await writeFile(path, "{ allowedSources: [");
+    await expect(readPolicy(path)).rejects.toThrow(`Invalid ${path}`);
+  });
+});
+
+describe("validatePolicy", () => {
+  it("accepts an empty policy", () => {
+    expect(() => validatePolicy({})).not.toThrow();
+  });
+
+  it("rejects unknown fields, so a typo doesn't allow everything", () => {
+    expect(() => validatePolicy({ allowedSource: ["x"] })).toThrow("skills-policy.json has unknown field 'allowedSource'");
+  });
+
+  it("rejects invalid patterns and fields", () => {
+    expect(() => validatePolicy([])).toThrow("must be a JSON object");
+    expect(() => validatePolicy({ allowedSources: "https://github.com/acme/*" })).toThrow("invalid 'allowedSources'");
+    expect(() => validatePolicy({ blockedSkills: [""] })).toThrow("invalid 'blockedSkills'");
+    expect(() => validatePolicy({ requiredFields: ["notes"] })).toThrow(
+      `invalid 'requiredFields' — must be a list of "ref", "integrity", "track"`
+    );
+  });
+});
+
+describe("matchesPattern", () => {
+  it("matches * within a path segment and ** across segments", () => {
+    expect(matchesPattern("https://github.com/acme/skills.git", "https://github.com/acme/*")).toBe(true);
+    expect(matchesPattern("https://github.com/acme-evil/skills.git", "https://github.com/acme/*")).toBe(false);
+    expect(matchesPattern("https://gitlab.com/acme/group/skills.git", "https://gitlab.com/acme/*")).toBe(false);
+    expect(matchesPattern("https://gitlab.com/acme/group/skills.git", "https://gitlab.com/acme/**")).toBe(true);
+  });
+
+  it("treats everything else literally", () => {
+    expect(matchesPattern("pdf", "pdf")).toBe(true);
+    expect(matchesPattern("pdfx", "pdf")).toBe(false);
+    expect(matchesPattern("pXf", "p.f")).toBe(false);
+  });
+});
+
+describe("findViolations", () => {
+  it("reports sources that aren't allowed", () => {
+    const policy = { allowedSources: ["https://github.com/anthropics/*"] };
+    expect(findViolations(policy, "pdf", entry())).toEqual([
+      { name: "pdf", message: "source https://github.com/acme/skills.git is not in the policy's allowedSources" },
+    ]);
+    expect(findViolations(policy, "pdf", entry({ source: "https://github.com/anthropics/skills.git" }))).toEqual([]);
+  });
+
+  it("blocks skills by lockfile name or upstream name", () => {
+    const policy = { blockedSkills: ["pdf"] };
+    expect(findViolations(policy, "pdf", entry())).toEqual([{ name: "pdf", message: "blocked by the policy ('pdf')" }]);
+    expect(findViolations(policy, "acme-pdf", entry())).toHaveLength(1);
+    expect(findViolations(policy, "xlsx", entry({ path: "skills/xlsx" }))).toEqual([]);
+  });
+
+  it("reports missing required fields", () => {
+    const policy = { requiredFields: ["integrity" as const, "track" as const] };
+    expect(findViolations(policy, "pdf", entry({ integrity: undefined }))).toEqual([
+      { name: "pdf", message: "missing required field 'integrity'" },
+      { name: "pdf", message: "missing required field 'track'" },
+    ]);
+  });
+});
+
+describe("checkPolicy", () => {
+  it("checks every skill in the lockfile", () => {
+    const lockfile = { version: 2 as const, skills: { pdf: entry(), xlsx: entry({ path: "skills/xlsx", ref: undefined }) } };
+    expect(checkPolicy({ requiredFields: ["ref"] }, lockfile)).toEqual([
+      { name: "xlsx", message: "missing required field 'ref'" },
+    ]);
+  });
+});
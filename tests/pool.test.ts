@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { mapConcurrent } from "../src/pool.js";
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe("mapConcurrent", () => {
+  it("returns results in input order regardless of completion order", async () => {
+    const results = await mapConcurrent([30, 10, 20], 3, async (ms) => {
+      await delay(ms);
+      return ms;
+    });
+
+    expect(results.map((r) => r.status === "fulfilled" && r.value)).toEqual([30, 10, 20]);
+  });
+
+  it("never runs more than `concurrency` workers at once", async () => {
+    let active = 0;
+    let peak = 0;
+
+    await mapConcurrent(Array.from({ length: 10 }, (_, i) => i), 3, async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await delay(5);
+      active--;
+    });
+
+    expect(peak).toBe(3);
+  });
+
+  it("settles every item even when some fail", async () => {
+    const results = await mapConcurrent(["a", "b", "c"], 2, async (item) => {
+      if (item === "b") throw new Error("boom");
+      return item.toUpperCase();
+    });
+
+    expect(results[0]).toEqual({ status: "fulfilled", value: "A" });
+    expect(results[1].status).toBe("rejected");
+    expect((results[1] as PromiseRejectedResult).reason.message).toBe("boom");
+    expect(results[2]).toEqual({ status: "fulfilled", value: "C" });
+  });
+
+  it("handles an empty list", async () => {
+    expect(await mapConcurrent([], 4, async () => 1)).toEqual([]);
+  });
+
+  it("passes the item index to the worker", async () => {
+    const results = await mapConcurrent(["x", "y"], 1, async (item, index) => `${item}${index}`);
+    expect(results.map((r) => r.status === "fulfilled" && r.value)).toEqual(["x0", "y1"]);
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect } from "vitest";
+import { parseReportSpec, renderJUnit, renderSarif } from "../src/report.js";
+import type { CheckResult } from "../src/types.js";
+
+const SHA_A = "a".repeat(40);
+const SHA_B = "b".repeat(40);
+
+function makeResult(overrides: Partial<CheckResult> = {}): CheckResult {
+  return {
+    verified: [],
+    missing: [],
+    wrongRef: [],
+    modified: [],
+    unverified: [],
+    extra: [],
+    ...overrides,
+  };
+}
+
+const LOCKFILE_TEXT = [
+  "{",
+  '  "version": 1,',
+  '  "skills": {',
+  '    "pdf": {',
+  '      "source": "https://github.com/anthropics/skills.git",',
+  '      "path": "skills/pdf",',
+  `      "ref": "${SHA_A}"`,
+  "    },",
+  '    "source": {',
+  '      "source": "https://github.com/anthropics/skills.git",',
+  '      "path": "skills/source",',
+  `      "ref": "${SHA_A}"`,
+  "    }",
+  "  }",
+  "}",
+  "",
+].join("\n");
+
+describe("parseReportSpec", () => {
+  it("parses junit and sarif specs", () => {
+    expect(parseReportSpec("junit=out/check.xml")).toEqual({ format: "junit", path: "out/check.xml" });
+    expect(parseReportSpec("sarif=check.sarif")).toEqual({ format: "sarif", path: "check.sarif" });
+  });
+
+  it("rejects unknown formats", () => {
+    expect(() => parseReportSpec("html=report.html")).toThrow("Unknown report format 'html'");
+  });
+
+  it("rejects a missing path", () => {
+    expect(() => parseReportSpec("junit")).toThrow("Missing report path");
+    expect(() => parseReportSpec("junit=")).toThrow("Missing report path");
+  });
+});
+
+describe("renderJUnit", () => {
+  it("emits one passing test case per verified skill", () => {
+    const xml = renderJUnit(makeResult({ verified: ["pdf", "xlsx"] }));
+    expect(xml).toContain('<testsuites name="skills-lock" tests="2" failures="0">');
+    expect(xml).toContain('<testcase classname="skills-lock" name="pdf"/>');
+    expect(xml).toContain('<testcase classname="skills-lock" name="xlsx"/>');
+  });
+
+  it("emits a failure for every problem category", () => {
+    const xml = renderJUnit(
+      makeResult({
+        verified: ["ok"],
+        missing: [{ name: "review", ref: SHA_A }],
+        wrongRef: [{ name: "pdf", have: SHA_B, want: SHA_A }],
+        modified: [{ name: "docx", ref: SHA_A, expected: "sha256:1", actual: "sha256:2" }],
+        unverified: [{ name: "xlsx", ref: SHA_A }],
+        extra: [{ name: "rogue" }],
+      })
+    );
+
+    expect(xml).toContain('tests="6" failures="5"');
+    expect(xml).toContain('<failure type="missing"');
+    expect(xml).toContain('<failure type="wrong-ref" message="Skill &apos;pdf&apos; is installed at bbbbbbb but skills.lock pins aaaaaaa.');
+    expect(xml).toContain('<failure type="modified"');
+    expect(xml).toContain('<failure type="unverified"');
+    expect(xml).toContain('<failure type="extra"');
+  });
+
+  it("escapes XML special characters in names", () => {
+    const xml = renderJUnit(makeResult({ verified: ['a<b>&"c'] }));
+    expect(xml).toContain('name="a&lt;b&gt;&amp;&quot;c"');
+  });
+});
+
+describe("renderSarif", () => {
+  it("produces a valid SARIF 2.1.0 log with no results when all skills pass", () => {
+    const sarif = JSON.parse(renderSarif(makeResult({ verified: ["pdf"] }), { version: "1.2.3", lockfileText: LOCKFILE_TEXT }));
+    expect(sarif.version).toBe("2.1.0");
+    expect(sarif.runs[0].tool.driver.name).toBe("skills-lock");
+    expect(sarif.runs[0].tool.driver.version).toBe("1.2.3");
+    expect(sarif.runs[0].tool.driver.rules.map((r: { id: string }) => r.id)).toEqual([
+      "missing",
+      "wrong-ref",
+      "modified",
+      "unverified",
+      "extra",
+    ]);
+    expect(sarif.runs[0].results).toEqual([]);
+  });
+
+  it("points locked-skill issues at their line in skills.lock", () => {
+    const sarif = JSON.parse(
+      renderSarif(
+        makeResult({
+          wrongRef: [{ name: "pdf", have: SHA_B, want: SHA_A }],
+          missing: [{ name: "source", ref: SHA_A }],
+        }),
+        { version: "1.2.3", lockfileText: LOCKFILE_TEXT }
+      )
+    );
+
+    const [pdf, source] = sarif.runs[0].results;
+    expect(pdf.ruleId).toBe("wrong-ref");
+    expect(pdf.level).toBe("error");
+    expect(pdf.locations[0].physicalLocation).toEqual({
+      artifactLocation: { uri: "skills.lock" },
+      region: { startLine: 4 },
+    });
+    expect(source.locations[0].physicalLocation.region.startLine).toBe(9);
+  });
+
+  it("points at the lockfile that was checked", () => {
+    const result = makeResult({ missing: [{ name: "pdf", ref: SHA_A }] });
+    const render = (lockfilePath: string) =>
+      JSON.parse(renderSarif(result, { version: "1.2.3", lockfileText: LOCKFILE_TEXT, lockfilePath }))
+        .runs[0].results[0].locations[0].physicalLocation.artifactLocation.uri;
+    expect(render("/home/me/.config/skills-lock/skills.lock")).toBe("file:///home/me/.config/skills-lock/skills.lock");
+    expect(render("skills.lock")).toBe("skills.lock");
+  });
+
+  it("points extra skills at their install directory", () => {
+    const sarif = JSON.parse(
+      renderSarif(makeResult({ extra: [{ name: "rogue" }] }), { version: "1.2.3", lockfileText: LOCKFILE_TEXT })
+    );
+    expect(sarif.runs[0].results[0].locations[0].physicalLocation).toEqual({
+      artifactLocation: { uri: ".agents/skills/rogue" },
+    });
+  });
+});
+
+describe("reports with one non-default target directory", () => {
+  const result = makeResult({ extra: [{ name: "stray" }] });
+  const uri = (targets: string[]) =>
+    JSON.parse(renderSarif(result, { version: "1.2.3", lockfileText: LOCKFILE_TEXT, targets }))
+      .runs[0].results[0].locations[0].physicalLocation.artifactLocation.uri;
+
+  it("points extra skills at the checked target in SARIF", () => {
+    expect(uri([".claude/skills"])).toBe(".claude/skills/stray");
+    expect(uri(["/home/me/.agents/skills"])).toBe("file:///home/me/.agents/skills/stray");
+  });
+});
+
+describe("reports with several target directories", () => {
+  const result = makeResult({
+    missing: [{ name: "pdf", ref: SHA_A, target: ".cursor/skills" }],
+    extra: [{ name: "rogue", target: ".claude/skills" }],
+  });
+
+  it("names the target in JUnit test cases and messages", () => {
+    const xml = renderJUnit(result);
+    expect(xml).toContain('<testcase classname="skills-lock" name="pdf (.cursor/skills)">');
+    expect(xml).toContain("not installed in .cursor/skills");
+  });
+
+  it("points extra skills at their target directory in SARIF", () => {
+    const sarif = JSON.parse(renderSarif(result, { version: "1.2.3", lockfileText: LOCKFILE_TEXT }));
+    const extra = sarif.runs[0].results.find((r: { ruleId: string }) => r.ruleId === "extra");
+    expect(extra.locations[0].physicalLocation.artifactLocation.uri).toBe(".claude/skills/rogue");
+  });
+});
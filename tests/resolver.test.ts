@@ -1,9 +1,21 @@
 import { vi } from "vitest";
 import { mkdir, writeFile, rm } from "node:fs/promises";
 import { tmpdir } from "node:os";
-import { join } from "node:path";
+import { basename, join } from "node:path";
 import { simpleGit } from "simple-git";
-import { expandSource, resolveRepo, resolveRef, findSkills } from "../src/resolver.js";
+import {
+  expandSource,
+  resolveRepo,
+  resolveRef,
+  findSkills,
+  isLocalSource,
+  sourceKind,
+  normalizeLocalSource,
+  resolveLocalSource,
+  resolveLocalRef,
+  resolvePathRef,
+  isPathUnchanged,
+} from "../src/resolver.js";
 
 // Helper: create a temp directory with a real git repo
 async function createTempGitRepo(): Promise<string> {
@@ -33,6 +45,10 @@ describe("expandSource", () => {
     expect(expandSource("my-org/my.repo")).toBe("https://github.com/my-org/my.repo.git");
   });
 
+  it("does not mistake a relative archive path for shorthand", () => {
+    expect(expandSource("dist/skill.tgz")).toBe("dist/skill.tgz");
+  });
+
   it("passes through https URLs unchanged", () => {
     const url = "https://github.com/anthropics/skills.git";
     expect(expandSource(url)).toBe(url);
@@ -63,6 +79,87 @@ describe("expandSource", () => {
   });
 });
 
+describe("local sources", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = join(tmpdir(), `skills-lock-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    await mkdir(join(dir, "review"), { recursive: true });
+    await writeFile(join(dir, "review", "SKILL.md"), "# Review\n");
+  });
+
+  afterEach(async () => {
+    await cleanupDir(dir);
+  });
+
+  it("recognizes file: sources", () => {
+    expect(isLocalSource("file:./internal-skills")).toBe(true);
+    expect(isLocalSource("file:./dist/skill.tgz")).toBe(false);
+    expect(isLocalSource("./internal-skills")).toBe(false);
+    // A file:// URL is a git repo to clone, not a directory to use in place
+    expect(isLocalSource("file:///srv/git/skills.git")).toBe(false);
+    expect(sourceKind("file:///srv/git/skills.git")).toBe("git");
+    expect(isLocalSource("anthropics/skills")).toBe(false);
+  });
+
+  it("resolves relative and absolute paths", async () => {
+    const cwd = process.cwd();
+    process.chdir(tmpdir());
+    try {
+      expect(await resolveLocalSource(`file:./${basename(dir)}`)).toBe(dir);
+    } finally {
+      process.chdir(cwd);
+    }
+    expect(await resolveLocalSource(`file:${dir}`)).toBe(dir);
+  });
+
+  it("resolves relative paths against a root instead of the current directory", async () => {
+    expect(await resolveLocalSource("file:./review", dir)).toBe(join(dir, "review"));
+  });
+
+  it("rewrites relative local sources to be relative to the root", () => {
+    const cwd = process.cwd();
+    process.chdir(dir);
+    try {
+      expect(normalizeLocalSource("file:./review", dir)).toBe("file:./review");
+      expect(normalizeLocalSource("file:review", tmpdir())).toBe(`file:./${basename(dir)}/review`);
+      expect(normalizeLocalSource("file:.", join(dir, "review"))).toBe("file:..");
+      expect(normalizeLocalSource("dist/skill.tgz", tmpdir())).toBe(`./${basename(dir)}/dist/skill.tgz`);
+    } finally {
+      process.chdir(cwd);
+    }
+    expect(normalizeLocalSource(`file:${dir}`, tmpdir())).toBe(`file:${dir}`);
+    expect(normalizeLocalSource(`file://${dir}`, tmpdir())).toBe(`file://${dir}`);
+    expect(normalizeLocalSource("https://example.com/skill.tgz", tmpdir())).toBe("https://example.com/skill.tgz");
+    expect(normalizeLocalSource("anthropics/skills", tmpdir())).toBe("anthropics/skills");
+  });
+
+  it("throws when the directory doesn't exist", async () => {
+    await expect(resolveLocalSource("file:./no-such-dir")).rejects.toThrow(
+      "Local source directory not found: file:./no-such-dir"
+    );
+  });
+
+  it("has no ref outside a git repo", async () => {
+    expect(await resolveLocalRef(dir)).toBeUndefined();
+    const skills = await findSkills(dir, "file:./internal-skills");
+    expect(skills).toEqual([{ name: "review", source: "file:./internal-skills", path: "review", ref: undefined }]);
+  });
+
+  it("uses the HEAD of the containing git repo as ref", async () => {
+    const git = simpleGit(dir);
+    await git.init();
+    await git.addConfig("user.email", "test@test.com");
+    await git.addConfig("user.name", "Test");
+    await git.add(".");
+    await git.commit("add skill");
+
+    const head = await resolveRef(dir);
+    expect(await resolveLocalRef(join(dir, "review"))).toBe(head);
+    expect((await findSkills(dir, "file:./internal-skills"))[0].ref).toBe(head);
+  });
+});
+
 describe("resolveRef", () => {
   let repoDir: string;
 
@@ -103,17 +200,74 @@ describe("resolveRef", () => {
   });
 });
 
+describe("resolvePathRef", () => {
+  let repoDir: string;
+
+  async function commit(path: string, content: string): Promise<string> {
+    const git = simpleGit(repoDir);
+    await mkdir(join(repoDir, path, ".."), { recursive: true });
+    await writeFile(join(repoDir, path), content);
+    await git.add(".");
+    await git.commit(`update ${path}`);
+    return resolveRef(repoDir);
+  }
+
+  beforeEach(async () => {
+    repoDir = await createTempGitRepo();
+  });
+
+  afterEach(async () => {
+    await cleanupDir(repoDir);
+  });
+
+  it("returns the last commit that touched a path", async () => {
+    const pdfSha = await commit("skills/pdf/SKILL.md", "# pdf\n");
+    const docxSha = await commit("skills/docx/SKILL.md", "# docx\n");
+
+    expect(await resolvePathRef(repoDir, "skills/pdf")).toBe(pdfSha);
+    expect(await resolvePathRef(repoDir, "skills/docx")).toBe(docxSha);
+    expect(await resolvePathRef(repoDir, ".")).toBe(docxSha);
+    expect(await resolvePathRef(repoDir, "skills/pdf", docxSha)).toBe(pdfSha);
+  });
+
+  it("throws when no commit touched the path", async () => {
+    await expect(resolvePathRef(repoDir, "skills/nope")).rejects.toThrow("No commits touch skills/nope");
+  });
+
+  it("compares a path's contents between commits", async () => {
+    const v1 = await commit("skills/pdf/SKILL.md", "# pdf\n");
+    const other = await commit("skills/docx/SKILL.md", "# docx\n");
+    const v2 = await commit("skills/pdf/SKILL.md", "# pdf v2\n");
+    const reverted = await commit("skills/pdf/SKILL.md", "# pdf\n");
+
+    expect(await isPathUnchanged(repoDir, "skills/pdf", v1, other)).toBe(true);
+    expect(await isPathUnchanged(repoDir, "skills/pdf", v1, v2)).toBe(false);
+    expect(await isPathUnchanged(repoDir, "skills/pdf", v1, reverted)).toBe(true);
+    expect(await isPathUnchanged(repoDir, "skills/docx", v1, other)).toBe(false);
+  });
+});
+
 describe("resolveRepo", () => {
   let clonedDir: string | undefined;
   let sourceDir: string;
+  let cacheDir: string;
+  const originalCacheDir = process.env.SKILLS_LOCK_CACHE_DIR;
 
   beforeEach(async () => {
     sourceDir = await createTempGitRepo();
+    cacheDir = join(tmpdir(), `skills-lock-cache-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    process.env.SKILLS_LOCK_CACHE_DIR = cacheDir;
     clonedDir = undefined;
   });
 
   afterEach(async () => {
+    if (originalCacheDir === undefined) {
+      delete process.env.SKILLS_LOCK_CACHE_DIR;
+    } else {
+      process.env.SKILLS_LOCK_CACHE_DIR = originalCacheDir;
+    }
     await cleanupDir(sourceDir);
+    await cleanupDir(cacheDir);
     if (clonedDir) {
       await cleanupDir(clonedDir);
     }
@@ -141,6 +295,18 @@ describe("resolveRepo", () => {
     const log = await clonedGit.log({ maxCount: 1 });
     expect(log.latest?.message).toBe("branch commit");
   });
+
+  it("clones at a tag and resolves the tagged commit", async () => {
+    const git = simpleGit(sourceDir);
+    await git.addTag("v1.0.0");
+    const taggedSha = await resolveRef(sourceDir);
+    await writeFile(join(sourceDir, "later.txt"), "after tag\n");
+    await git.add("later.txt");
+    await git.commit("commit after tag");
+
+    clonedDir = await resolveRepo(sourceDir, { ref: "v1.0.0" });
+    expect(await resolveRef(clonedDir)).toBe(taggedSha);
+  });
 });
 
 describe("findSkills", () => {
@@ -2,7 +2,7 @@ import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import { mkdtemp, mkdir, writeFile, rm } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join, resolve } from "node:path";
-import { scanInstalledSkills } from "../src/scanner.js";
+import { scanInstalledSkills, readInstalledSkill } from "../src/scanner.js";
 
 let originalCwd: string;
 let tmpDir: string;
@@ -100,3 +100,23 @@ describe("scanInstalledSkills", () => {
     expect(result[0].metadata).toBeUndefined();
   });
 });
+
+describe("scanning other directories", () => {
+  it("scans a given skills directory instead of .agents/skills", async () => {
+    await mkdir(".claude/skills/pdf", { recursive: true });
+    await writeFile(".claude/skills/pdf/SKILL.md", "# PDF");
+    await mkdir(".agents/skills/xlsx", { recursive: true });
+
+    const result = await scanInstalledSkills(".claude/skills");
+    expect(result.map((s) => s.name)).toEqual(["pdf"]);
+    expect(result[0].diskPath).toBe(resolve(".claude/skills", "pdf"));
+  });
+
+  it("reads a single installed skill, or null when absent", async () => {
+    await mkdir(".agents/skills/pdf", { recursive: true });
+    await writeFile(".agents/skills/pdf/SKILL.md", "# PDF");
+
+    expect(await readInstalledSkill(".agents/skills/pdf")).toMatchObject({ name: "pdf", hasSkillMd: true });
+    expect(await readInstalledSkill(".agents/skills/xlsx")).toBeNull();
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { getConfigDir, globalScope, projectScope } from "../src/scope.js";
+
+describe("getConfigDir", () => {
+  let saved: NodeJS.ProcessEnv;
+
+  beforeEach(() => {
+    saved = { ...process.env };
+  });
+
+  afterEach(() => {
+    process.env = saved;
+  });
+
+  it("honors SKILLS_LOCK_CONFIG_DIR", () => {
+    process.env.SKILLS_LOCK_CONFIG_DIR = "/tmp/skills-lock-config";
+    expect(getConfigDir()).toBe("/tmp/skills-lock-config");
+  });
+
+  it.skipIf(process.platform !== "linux")("uses XDG_CONFIG_HOME, then ~/.config", () => {
+    delete process.env.SKILLS_LOCK_CONFIG_DIR;
+    process.env.XDG_CONFIG_HOME = "/tmp/xdg";
+    expect(getConfigDir()).toBe(join("/tmp/xdg", "skills-lock"));
+
+    delete process.env.XDG_CONFIG_HOME;
+    expect(getConfigDir()).toBe(join(homedir(), ".config", "skills-lock"));
+  });
+});
+
+describe("scopes", () => {
+  it("keeps project files in the current directory", () => {
+    expect(projectScope()).toEqual({
+      global: false,
+      root: ".",
+      lockfilePath: "skills.lock",
+      configPath: "skills-lock.config.json",
+      policyPath: "skills-policy.json",
+    });
+  });
+
+  it("keeps global files in the config dir and skills under home", () => {
+    process.env.SKILLS_LOCK_CONFIG_DIR = "/tmp/skills-lock-config";
+    try {
+      expect(globalScope()).toEqual({
+        global: true,
+        root: homedir(),
+        lockfilePath: join("/tmp/skills-lock-config", "skills.lock"),
+        configPath: join("/tmp/skills-lock-config", "skills-lock.config.json"),
+        policyPath: join("/tmp/skills-lock-config", "skills-policy.json"),
+      });
+    } finally {
+      delete process.env.SKILLS_LOCK_CONFIG_DIR;
+    }
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { execa } from "execa";
+import { verifyCommitSignature, verifyPinnedSigner } from "../src/signatures.js";
+
+let tmpDir: string;
+let repo: string;
+let allowedSigners: string;
+let keyring: string;
+let gnupgHome: string;
+const commits: Record<string, string> = {};
+
+/** Commit a change to the test repo with extra git config, and return its SHA. */
+async function commit(name: string, config: string[] = []): Promise<string> {
+  await writeFile(join(repo, "file.txt"), name);
+  await execa("git", [...config, "commit", "-q", "-am", name], { cwd: repo, env: { GNUPGHOME: gnupgHome } });
+  return (await execa("git", ["rev-parse", "HEAD"], { cwd: repo })).stdout.trim();
+}
+
+/** The SHA256 fingerprint of an SSH public key, as git reports it. */
+async function sshFingerprint(publicKey: string): Promise<string> {
+  return (await execa("ssh-keygen", ["-l", "-f", publicKey])).stdout.split(" ")[1];
+}
+
+beforeAll(async () => {
+  tmpDir = await mkdtemp(join(tmpdir(), "skills-lock-signatures-test-"));
+  repo = join(tmpDir, "repo");
+  gnupgHome = join(tmpDir, "gnupg");
+  await execa("mkdir", ["-p", repo, gnupgHome]);
+  await execa("chmod", ["700", gnupgHome]);
+  await execa("git", ["init", "-q"], { cwd: repo });
+  await execa("git", ["config", "user.email", "test@test.com"], { cwd: repo });
+  await execa("git", ["config", "user.name", "Test"], { cwd: repo });
+  await writeFile(join(repo, "file.txt"), "initial");
+  await execa("git", ["add", "."], { cwd: repo });
+  await execa("git", ["commit", "-q", "-m", "initial"], { cwd: repo });
+  commits.unsigned = (await execa("git", ["rev-parse", "HEAD"], { cwd: repo })).stdout.trim();
+
+  // Throwaway SSH keys: one trusted, one not
+  for (const key of ["trusted", "untrusted"]) {
+    await execa("ssh-keygen", ["-q", "-t", "ed25519", "-N", "", "-C", key, "-f", join(tmpDir, key)]);
+    commits[key] = await commit(key, ["-c", "gpg.format=ssh", "-c", `user.signingkey=${join(tmpDir, key)}`, "-c", "commit.gpgsign=true"]);
+  }
+  allowedSigners = join(tmpDir, "allowed_signers");
+  await writeFile(allowedSigners, `test@test.com ${await readFile(join(tmpDir, "trusted.pub"), "utf-8")}`);
+
+  // A throwaway GPG key, exported as the keyring
+  await execa("gpg", ["--batch", "--passphrase", "", "--quick-gen-key", "Test <test@test.com>", "ed25519", "sign", "never"], {
+    env: { GNUPGHOME: gnupgHome },
+  });
+  commits.gpg = await commit("gpg", ["-c", "user.signingkey=test@test.com", "-c", "commit.gpgsign=true"]);
+  keyring = join(tmpDir, "keyring.gpg");
+  await execa("gpg", ["--batch", "--output", keyring, "--export"], { env: { GNUPGHOME: gnupgHome } });
+}, 60_000);
+
+afterAll(async () => {
+  await execa("gpgconf", ["--kill", "all"], { env: { GNUPGHOME: gnupgHome }, reject: false });
+  await rm(tmpDir, { recursive: true, force: true });
+});
+
+describe("verifyCommitSignature", () => {
+  it("returns the fingerprint of a trusted SSH signature", async () => {
+    const fingerprint = await verifyCommitSignature(repo, commits.trusted, { allowedSigners });
+    expect(fingerprint).toBe(await sshFingerprint(join(tmpDir, "trusted.pub")));
+  });
+
+  it("returns the fingerprint of a GPG signature from the keyring", async () => {
+    const { stdout } = await execa("gpg", ["--with-colons", "--fingerprint", "test@test.com"], {
+      env: { GNUPGHOME: gnupgHome },
+    });
+    const fingerprint = stdout.split("\n").find((line) => line.startsWith("fpr:"))!.split(":")[9];
+    expect(await verifyCommitSignature(repo, commits.gpg, { keyring })).toBe(fingerprint);
+  });
+
+  it("rejects unsigned commits", async () => {
+    await expect(verifyCommitSignature(repo, commits.unsigned, { allowedSigners, keyring })).rejects.toThrow(
+      `Commit ${commits.unsigned.slice(0, 7)} is not signed`
+    );
+  });
+
+  it("rejects signatures from keys that aren't trusted", async () => {
+    await expect(verifyCommitSignature(repo, commits.untrusted, { allowedSigners })).rejects.toThrow(
+      "is not signed by a trusted key"
+    );
+    // Only the configured keys count, never the user's own keyring
+    await expect(verifyCommitSignature(repo, commits.gpg, { allowedSigners })).rejects.toThrow(
+      "is not signed by a trusted key"
+    );
+  });
+});
+
+describe("verifyPinnedSigner", () => {
+  it("accepts the recorded signer and rejects any other", async () => {
+    const signer = await sshFingerprint(join(tmpDir, "trusted.pub"));
+    const entry = { source: "https://github.com/acme/skills.git", path: "skills/pdf", ref: commits.trusted, signer };
+    await expect(verifyPinnedSigner(repo, "pdf", entry, { allowedSigners })).resolves.toBeUndefined();
+    await expect(verifyPinnedSigner(repo, "pdf", { ...entry, signer: "SHA256:other" }, { allowedSigners })).rejects.toThrow(
+      `Commit ${commits.trusted.slice(0, 7)} of 'pdf' is signed by ${signer}, but skills.lock expects SHA256:other`
+    );
+  });
+
+  it("requires a ref and a recorded signer", async () => {
+    const entry = { source: "https://github.com/acme/skills.git", path: "skills/pdf" };
+    await expect(verifyPinnedSigner(repo, "pdf", entry, { allowedSigners })).rejects.toThrow("'pdf' has no commit to verify");
+    await expect(verifyPinnedSigner(repo, "pdf", { ...entry, ref: commits.trusted }, { allowedSigners })).rejects.toThrow(
+      "skills.lock records no signer for 'pdf'. Run 'skills-lock add https://github.com/acme/skills.git --path skills/pdf --as pdf --force'"
+    );
+  });
+});